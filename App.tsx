@@ -1,9 +1,44 @@
 
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { LANGUAGES, TranscriptEntry } from './types';
-import { translateMedicalText, generateMedicalSpeech, decodePcmAudio } from './services/geminiService';
+import { EncounterSession, EntryRevision, LANGUAGES, TranscriptEntry } from './types';
 import { useSpeechRecognition } from './hooks/useSpeechRecognition';
+import { useTranslationQueue } from './hooks/useTranslationQueue';
+import { useEncounterSession } from './hooks/useEncounterSession';
+import { useVault } from './hooks/useVault';
+import { useTerminology } from './hooks/useTerminology';
+import { useGlossary } from './hooks/useGlossary';
+import { useSpeculativeTranslation } from './hooks/useSpeculativeTranslation';
+import { useAudioPlayback, PLAYBACK_RATES } from './hooks/useAudioPlayback';
+import { useVoiceSettings } from './hooks/useVoiceSettings';
+import { useEditorIdentity } from './hooks/useEditorIdentity';
+import { useTeachBack } from './hooks/useTeachBack';
+import { useVisitSummary } from './hooks/useVisitSummary';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { TEACH_BACK_PROMPTS } from './services/teachBack';
+import { PREVIEW_PHRASES } from './services/voiceSettings';
+import { Phrase } from './services/phrasebook';
+import { readVadSettings, VadSettings, writeVadSettings } from './services/voiceActivity';
 import { TranscriptList } from './components/TranscriptList';
+import { SessionHistory } from './components/SessionHistory';
+import { TerminologyPanel } from './components/TerminologyPanel';
+import { GlossaryPanel } from './components/GlossaryPanel';
+import { VoiceSettingsPanel } from './components/VoiceSettingsPanel';
+import { MicrophoneSettingsPanel } from './components/MicrophoneSettingsPanel';
+import { InputLevelMeter } from './components/InputLevelMeter';
+import { TeachBackSummary } from './components/TeachBackSummary';
+import { VisitSummaryPanel } from './components/VisitSummaryPanel';
+import { PhrasebookPanel } from './components/PhrasebookPanel';
+import { UnlockDialog } from './components/UnlockDialog';
+import { ExportMenu } from './components/ExportMenu';
+import { PushToTalkButton } from './components/PushToTalkButton';
+import { exportSession, ExportFormat, printPatientHandout } from './services/exportService';
+import { detectLanguage } from './services/languageDetection';
+import { checkDosageIntegrity } from './services/dosageGuard';
+import { checkGlossaryCompliance, selectGlossaryEntries } from './services/glossary';
+import { clearSpeechCache, invalidateEntrySpeech, isSpeechPersistenceEnabled, setSpeechPersistence } from './services/speechCache';
+
+const LOW_LATENCY_KEY = 'low_latency_mode';
+const AUTO_SPEAK_KEY = 'auto_speak';
 
 const App: React.FC = () => {
   const [sourceLang, setSourceLang] = useState('en-US');
@@ -12,22 +47,32 @@ const App: React.FC = () => {
   const [interimText, setInterimText] = useState('');
   const [speaker, setSpeaker] = useState<'provider' | 'patient'>('provider');
   const [error, setError] = useState<string | null>(null);
-  const [isTranslating, setIsTranslating] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState<string | null>(null); // Entry ID being spoken
+  const [showHistory, setShowHistory] = useState(false);
+  const [showTerminology, setShowTerminology] = useState(false);
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [showVoices, setShowVoices] = useState(false);
+  const [showVisitSummary, setShowVisitSummary] = useState(false);
+  const [showPhrasebook, setShowPhrasebook] = useState(false);
+  const isOnline = useOnlineStatus();
+  const [showMicrophone, setShowMicrophone] = useState(false);
+  const [showTeachBackSummary, setShowTeachBackSummary] = useState(false);
+  const [vadSettings, setVadSettings] = useState<VadSettings>(readVadSettings);
+  // Conversation mode binds each party to a language: provider → sourceLang, patient → targetLang
+  const [conversationMode, setConversationMode] = useState(true);
+  // Per-session: earlier turns are sent with each utterance to keep pronouns and follow-ups coherent
+  const [contextEnabled, setContextEnabled] = useState(true);
+  // Low-latency mode translates interim speech ahead of the final result; costs extra requests
+  const [lowLatency, setLowLatency] = useState(() => localStorage.getItem(LOW_LATENCY_KEY) === 'true');
+  const recognitionLang = conversationMode && speaker === 'patient' ? targetLang : sourceLang;
   
+  const terminology = useTerminology();
+  const { glossary, saveEntry: saveGlossaryEntry, removeEntry: removeGlossaryEntry, importCsv: importGlossaryCsv } = useGlossary();
+  const voiceSettings = useVoiceSettings();
+  const { editor, setEditor } = useEditorIdentity();
+
   const scrollRef = useRef<HTMLDivElement>(null);
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const [showDisclaimer, setShowDisclaimer] = useState(false);
-  const disclaimerButtonRef = useRef<HTMLButtonElement | null>(null);
   const appContentRef = useRef<HTMLDivElement | null>(null);
 
-  const getAudioContext = () => {
-    if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    }
-    return audioContextRef.current;
-  };
-
   useEffect(() => {
     if (scrollRef.current) {
       scrollRef.current.scrollTo({
@@ -37,136 +82,386 @@ const App: React.FC = () => {
     }
   }, [transcripts, interimText]);
 
-  // Show medical safety disclaimer only on first load
-  useEffect(() => {
-    try {
-      const ack = localStorage.getItem('medical_disclaimer_ack');
-      if (!ack) setShowDisclaimer(true);
-    } catch {}
-  }, []);
+  // Saved transcripts are encrypted; the disclaimer doubles as first-run passphrase setup
+  const vault = useVault({ onIdle: () => lockApp() });
+  const isLocked = vault.status !== 'unlocked';
 
-  // Focus the acknowledge button when modal appears for accessibility
+  // Block interaction with the app until it is unlocked
   useEffect(() => {
-    if (showDisclaimer) {
-      disclaimerButtonRef.current?.focus();
+    const content = appContentRef.current;
+    if (!content) return;
+    if (isLocked) {
+      content.setAttribute('inert', '');
+      content.setAttribute('aria-hidden', 'true');
+    } else {
+      content.removeAttribute('inert');
+      content.removeAttribute('aria-hidden');
     }
-  }, [showDisclaimer]);
+  }, [isLocked]);
+
+  const { enqueue, enqueuePhrase, retry: retryTranslation, cancelAll: cancelTranslations, resetSequence, translateAhead } = useTranslationQueue(setTranscripts, {
+    glossary,
+    transcripts,
+    contextEnabled,
+  });
+  const speculation = useSpeculativeTranslation({ enabled: lowLatency, translate: translateAhead });
+  const { reset: resetSpeculation } = speculation;
+  const { playback, speak, enqueue: enqueueSpeech, pause: pausePlayback, resume: resumePlayback, stop: stopPlayback, setRate: setPlaybackRate } = useAudioPlayback();
+  // Speak every new translation as soon as it lands, one after another
+  const [autoSpeak, setAutoSpeak] = useState(() => localStorage.getItem(AUTO_SPEAK_KEY) === 'true');
+  const autoSpokenRef = useRef(new Set<string>());
+  const [keepSpeech, setKeepSpeech] = useState(isSpeechPersistenceEnabled);
 
-  // Trap focus on the disclaimer and block interaction with the app until acknowledged
   useEffect(() => {
-    const content = appContentRef.current;
-    if (content) {
-      if (showDisclaimer) {
-        content.setAttribute('inert', '');
-        content.setAttribute('aria-hidden', 'true');
-      } else {
-        content.removeAttribute('inert');
-        content.removeAttribute('aria-hidden');
-      }
+    localStorage.setItem(LOW_LATENCY_KEY, String(lowLatency));
+  }, [lowLatency]);
+
+  useEffect(() => {
+    localStorage.setItem(AUTO_SPEAK_KEY, String(autoSpeak));
+  }, [autoSpeak]);
+
+  const cancelPendingRequests = useCallback(() => {
+    cancelTranslations();
+    resetSpeculation();
+    stopPlayback();
+  }, [cancelTranslations, resetSpeculation, stopPlayback]);
+
+  // Switching languages invalidates anything still in flight for the old pair
+  useEffect(() => cancelPendingRequests, [sourceLang, targetLang, cancelPendingRequests]);
+
+  const restoreSession = useCallback((session: EncounterSession | null) => {
+    cancelPendingRequests();
+    setInterimText('');
+    setError(null);
+    const entries = session?.transcripts ?? [];
+    // Restored history is never auto-spoken
+    entries.forEach(e => autoSpokenRef.current.add(e.id));
+    setTranscripts(entries);
+    resetSequence(entries);
+    setContextEnabled(session?.contextEnabled ?? true);
+    if (session) {
+      setSourceLang(session.sourceLang);
+      setTargetLang(session.targetLang);
     }
+  }, [cancelPendingRequests, resetSequence]);
+
+  const {
+    currentSessionId,
+    currentLabel,
+    sessions,
+    startNewSession,
+    resumeSession,
+    resumeById,
+    suspend,
+    discard,
+    snapshot,
+    renameSession,
+    removeSession,
+    retentionDays,
+    setRetentionDays,
+  } = useEncounterSession({
+    transcripts,
+    sourceLang,
+    targetLang,
+    contextEnabled,
+    isUnlocked: !isLocked,
+    onRestore: restoreSession,
+  });
 
-    if (!showDisclaimer) return;
+  // Reopened after the next unlock
+  const suspendedSessionRef = useRef<string | null>(null);
 
-    const handleKeyDown = (event: KeyboardEvent) => {
-      if (event.key === 'Tab') {
-        event.preventDefault();
-        disclaimerButtonRef.current?.focus();
-      }
-      if (event.key === 'Escape') {
-        event.preventDefault();
-      }
-    };
+  // `lang` is the language the utterance was recognized in; in conversation mode it decides who spoke
+  const routeUtterance = useCallback((text: string, lang: string = recognitionLang) => {
+    if (sourceLang === targetLang) return { sourceLang, targetLang, speaker };
 
-    document.addEventListener('keydown', handleKeyDown, true);
-    return () => document.removeEventListener('keydown', handleKeyDown, true);
-  }, [showDisclaimer]);
+    const forward = { sourceLang, targetLang, speaker: 'provider' as const };
+    const reverse = { sourceLang: targetLang, targetLang: sourceLang, speaker: 'patient' as const };
+    const assumed = !conversationMode
+      ? { sourceLang, targetLang, speaker }
+      : lang === targetLang ? reverse : forward;
 
-  const handleTranslation = useCallback(async (text: string) => {
+    // Patients often reply in the provider's language or code-switch; follow what was actually spoken
+    const detected = detectLanguage(text, [sourceLang, targetLang]);
+    if (detected && detected.lang !== assumed.sourceLang) {
+      const route = detected.lang === sourceLang ? forward : reverse;
+      return { ...route, detectedLang: detected.lang };
+    }
+    return assumed;
+  }, [recognitionLang, conversationMode, sourceLang, targetLang, speaker]);
+
+  const handleTranslation = useCallback((text: string, lang: string = recognitionLang) => {
     if (!text.trim()) return;
     
-    setIsTranslating(true);
     setError(null);
-    try {
-      const translated = await translateMedicalText(text, sourceLang, targetLang);
-      
-      const newEntry: TranscriptEntry = {
-        id: crypto.randomUUID(),
-        originalText: text,
-        translatedText: translated,
-        timestamp: new Date(),
-        sourceLang,
-        targetLang,
-        speaker
-      };
-      
-      setTranscripts(prev => [...prev, newEntry]);
-    } catch (err) {
-      setError("Medical translation service encountered an issue.");
-    } finally {
-      setIsTranslating(false);
-      setInterimText('');
-    }
-  }, [sourceLang, targetLang, speaker]);
-
-  const onSpeechResult = useCallback((text: string, isFinal: boolean) => {
+    setInterimText('');
+    const route = routeUtterance(text, lang);
+    enqueue(text, { ...route, speculative: speculation.take(text, route) });
+  }, [enqueue, routeUtterance, recognitionLang, speculation.take]);
+
+  const { markActivity } = vault;
+  const onSpeechResult = useCallback((text: string, isFinal: boolean, lang: string) => {
+    // A consultation conducted hands-free is still in use
+    markActivity();
     if (isFinal) {
-      handleTranslation(text);
+      handleTranslation(text, lang);
     } else {
       setInterimText(text);
+      speculation.update(text, routeUtterance(text, lang));
     }
-  }, [handleTranslation]);
+  }, [handleTranslation, routeUtterance, speculation.update, markActivity]);
 
   const onSpeechError = useCallback((err: string) => {
     if (err === 'not-allowed') {
       setError("Microphone access denied. Please check browser permissions.");
+    } else if (err === 'audio-capture') {
+      setError("No microphone input. Check that a microphone is connected and not in use by another app.");
+    } else if (err === 'mic-silent') {
+      setError("The microphone is sending only silence. It may be muted on the device or in system settings.");
+    } else if (err === 'transcription-failed') {
+      setError("The last utterance could not be transcribed. Please repeat it.");
     } else {
       setError(`Speech Recognition Error: ${err}`);
     }
   }, []);
 
-  const { isListening, startListening, stopListening } = useSpeechRecognition({
-    lang: sourceLang,
+  const { isListening, subscribeLevel, startListening, stopListening } = useSpeechRecognition({
+    lang: recognitionLang,
     onResult: onSpeechResult,
-    onError: onSpeechError
+    onError: onSpeechError,
+    vad: vadSettings,
   });
 
-  const speakText = async (text: string, langCode: string, entryId: string) => {
-    if (isSpeaking) return;
-    
-    setIsSpeaking(entryId);
+  const changeVadSettings = (settings: VadSettings) => {
+    writeVadSettings(settings);
+    setVadSettings(settings);
+  };
+
+  const lockApp = async () => {
+    if (isLocked) return;
+    stopListening();
+    setShowHistory(false);
+    clearSpeechCache();
     try {
-      const ctx = getAudioContext();
-      if (ctx.state === 'suspended') await ctx.resume();
-      
-      // We use Gemini TTS for high-quality, clear medical pronunciation
-      const voice = langCode.startsWith('en') ? 'Kore' : 'Zephyr';
-      
-      const audioData = await generateMedicalSpeech(text, voice);
-      const audioBuffer = await decodePcmAudio(audioData, ctx);
-      
-      const source = ctx.createBufferSource();
-      source.buffer = audioBuffer;
-      source.connect(ctx.destination);
-      source.onended = () => setIsSpeaking(null);
-      source.start();
+      suspendedSessionRef.current = await suspend();
     } catch (err) {
-      console.error("Gemini TTS failed, falling back to browser TTS", err);
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = langCode;
-      utterance.onend = () => setIsSpeaking(null);
-      window.speechSynthesis.speak(utterance);
+      console.error("Could not save session before locking", err);
     }
+    vault.lock();
   };
 
+  const unlockApp = async (passphrase: string) => {
+    const ok = await vault.unlock(passphrase);
+    const suspendedId = suspendedSessionRef.current;
+    if (ok && suspendedId) {
+      suspendedSessionRef.current = null;
+      resumeById(suspendedId).catch(err => console.error("Could not resume session", err));
+    }
+    return ok;
+  };
+
+  const panicWipe = async () => {
+    stopListening();
+    setShowHistory(false);
+    clearSpeechCache();
+    discard();
+    suspendedSessionRef.current = null;
+    await vault.wipe();
+  };
+
+  const handleExport = (format: ExportFormat) => {
+    const session = snapshot();
+    if (session) exportSession(session, format);
+  };
+
+  const visitSummary = useVisitSummary({ sessionId: currentSessionId, transcripts, sourceLang, targetLang, glossary });
+
+  const openVisitSummary = () => {
+    setShowVisitSummary(true);
+    if (!visitSummary.summary && !visitSummary.isGenerating) visitSummary.generate();
+  };
+
+  // Playback is blocked while numbers or doses disagree with the original, until a provider confirms
+  const isPlaybackBlocked = (entry: TranscriptEntry | undefined) =>
+    Boolean(entry?.integrity && !entry.integrity.ok && !entry.integrityConfirmedAt);
+
+  const confirmIntegrity = (entryId: string) => {
+    setTranscripts(prev => prev.map(e => (e.id === entryId ? { ...e, integrityConfirmedAt: new Date() } : e)));
+  };
+
+  const playbackItem = (entry: TranscriptEntry) => ({
+    entryId: entry.id,
+    text: entry.translatedText,
+    lang: entry.targetLang,
+    ...voiceSettings.voiceFor(entry.targetLang),
+    // Gemini speech needs the network; the browser voice works offline
+    browserOnly: !isOnline,
+  });
+
+  // The current speaker's direction, as for a spoken utterance
+  const sayPhrase = (phrase: Phrase) => {
+    const route = speaker === 'patient'
+      ? { sourceLang: targetLang, targetLang: sourceLang, speaker }
+      : { sourceLang, targetLang, speaker };
+    const id = enqueuePhrase(phrase, route);
+    autoSpokenRef.current.add(id);
+    speak({
+      entryId: id,
+      text: phrase.text[route.targetLang],
+      lang: route.targetLang,
+      ...voiceSettings.voiceFor(route.targetLang),
+      browserOnly: !isOnline,
+    });
+    setShowPhrasebook(false);
+  };
+
+  const queuedOfflineCount = transcripts.filter(e => e.queuedOffline).length;
+
+  const previewVoice = (lang: string, browserOnly: boolean) => {
+    speak({
+      entryId: `voice-preview-${lang}`,
+      text: PREVIEW_PHRASES[lang] ?? PREVIEW_PHRASES['en-US'],
+      lang,
+      ...voiceSettings.voiceFor(lang),
+      browserOnly,
+    });
+  };
+
+  // The prompt is a vetted phrase in the patient's language; the reply comes from the patient side
+  const promptTeachBack = (instruction: TranscriptEntry) => {
+    setSpeaker('patient');
+    speak({
+      entryId: `teach-back-${instruction.id}`,
+      text: TEACH_BACK_PROMPTS[instruction.targetLang] ?? TEACH_BACK_PROMPTS['en-US'],
+      lang: instruction.targetLang,
+      ...voiceSettings.voiceFor(instruction.targetLang),
+      browserOnly: !isOnline,
+    });
+  };
+
+  const { toggleKeyInstruction, startTeachBack, cancelTeachBack } = useTeachBack({
+    transcripts,
+    setTranscripts,
+    onPrompt: promptTeachBack,
+  });
+
+  // Key instructions are reviewed before the session ends
+  const endSession = () => {
+    setShowHistory(false);
+    if (transcripts.some(e => e.keyInstruction)) {
+      setShowTeachBackSummary(true);
+    } else {
+      startNewSession();
+    }
+  };
+
+  // A new translation replaces the old one; its audio must not be replayed
+  const retranslate = (entry: TranscriptEntry, text?: string) => {
+    invalidateEntrySpeech(entry.id);
+    retryTranslation(entry, text);
+  };
+
+  // Retry or retranslate in place; a translation being replaced is kept in the revision history
+  const retryEntry = (entry: TranscriptEntry) => {
+    if (entry.translatedText) {
+      const previous = revision('translatedText', entry.translatedText, 'retranslation');
+      setTranscripts(prev => prev.map(e => (e.id === entry.id ? { ...e, revisions: [...(e.revisions ?? []), previous] } : e)));
+    }
+    retranslate(entry);
+  };
+
+  const revision = (
+    field: EntryRevision['field'],
+    previousValue: string,
+    reason: EntryRevision['reason']
+  ): EntryRevision => ({ field, previousValue, reason, editedAt: new Date(), editedBy: editor.name.trim(), role: editor.role });
+
+  // Corrected source text (e.g. a misheard drug name) is retranslated; both old values are kept
+  const editSource = (entry: TranscriptEntry, text: string) => {
+    if (!text.trim() || text === entry.originalText) return;
+    const revisions = [
+      ...(entry.revisions ?? []),
+      revision('originalText', entry.originalText, 'correction'),
+      ...(entry.translatedText ? [revision('translatedText', entry.translatedText, 'retranslation')] : []),
+    ];
+    setTranscripts(prev => prev.map(e => (e.id === entry.id ? { ...e, revisions } : e)));
+    retranslate(entry, text);
+  };
+
+  // A translation typed by bilingual staff goes through the same number and glossary checks
+  const overrideTranslation = (entry: TranscriptEntry, text: string) => {
+    if (!text.trim() || text === entry.translatedText) return;
+    invalidateEntrySpeech(entry.id);
+    if (playback.currentId === entry.id) stopPlayback();
+    const glossaryEntries = selectGlossaryEntries(glossary, entry.originalText, entry.sourceLang, entry.targetLang);
+    const violations = checkGlossaryCompliance(glossaryEntries, text);
+    setTranscripts(prev => prev.map(e => (e.id === entry.id ? {
+      ...e,
+      translatedText: text,
+      manualTranslation: true,
+      // The staff wording is no longer the vetted phrase
+      phrasebookId: undefined,
+      revisions: [...(e.revisions ?? []), revision('translatedText', e.translatedText, 'override')],
+      quality: undefined,
+      integrity: checkDosageIntegrity(e.originalText, e.sourceLang, text, e.targetLang),
+      integrityConfirmedAt: undefined,
+      glossaryViolations: violations.length ? violations : undefined,
+    } : e)));
+  };
+
+  const changeKeepSpeech = (enabled: boolean) => {
+    setSpeechPersistence(enabled);
+    setKeepSpeech(enabled);
+  };
+
+  const speakText = (entryId: string) => {
+    const entry = transcripts.find(e => e.id === entryId);
+    if (!entry || entry.status !== 'translated') return;
+    if (isPlaybackBlocked(entry)) {
+      setError("Playback blocked: numbers or doses in the translation differ from the original. A provider must review and confirm first.");
+      return;
+    }
+    speak(playbackItem(entry));
+  };
+
+  // Turning auto-speak on only affects translations that arrive afterwards
+  useEffect(() => {
+    if (autoSpeak) transcripts.forEach(e => autoSpokenRef.current.add(e.id));
+  }, [autoSpeak]);
+
+  useEffect(() => {
+    if (!autoSpeak) return;
+    for (const entry of transcripts) {
+      if (entry.status !== 'translated' || autoSpokenRef.current.has(entry.id)) continue;
+      autoSpokenRef.current.add(entry.id);
+      if (!isPlaybackBlocked(entry)) enqueueSpeech(playbackItem(entry));
+    }
+  }, [autoSpeak, transcripts, enqueueSpeech]);
+
   const toggleRecording = () => {
     setError(null);
     if (isListening) {
       stopListening();
+      // Translations already spoken aloud keep playing
+      cancelTranslations();
+      resetSpeculation();
     } else {
       startListening();
     }
   };
 
+  // Push-to-talk: pressing switches the active party (and recognition language) and starts listening
+  const pressToTalk = (party: TranscriptEntry['speaker']) => {
+    setError(null);
+    setSpeaker(party);
+    startListening();
+  };
+
+  // Releasing stops listening but lets any in-flight translations finish
+  const releaseToTalk = () => {
+    stopListening();
+  };
+
   const swapLanguages = () => {
     setSourceLang(targetLang);
     setTargetLang(sourceLang);
@@ -193,6 +488,65 @@ const App: React.FC = () => {
           </div>
         </div>
         
+        <div className="flex items-center gap-3">
+        <button
+          onClick={lockApp}
+          title="Lock and encrypt"
+          className="f-btn f-btn--secondary text-xs"
+        >
+          🔒 Lock
+        </button>
+        <ExportMenu onExport={handleExport} disabled={transcripts.length === 0} />
+        <button
+          onClick={openVisitSummary}
+          disabled={transcripts.length === 0}
+          title="End-of-visit summary and patient handout"
+          className="f-btn f-btn--secondary text-xs"
+        >
+          📝 Summary
+        </button>
+        <button
+          onClick={() => setShowHistory(true)}
+          title={currentLabel ? `Session: ${currentLabel}` : 'Session history'}
+          className="f-btn f-btn--secondary text-xs"
+        >
+          🗂️ Sessions
+        </button>
+        <button
+          onClick={() => setShowPhrasebook(true)}
+          title="Offline phrasebook"
+          className="f-btn f-btn--secondary text-xs"
+        >
+          📕 Phrases
+        </button>
+        <button
+          onClick={() => setShowTerminology(true)}
+          title="Medical terminology"
+          className="f-btn f-btn--secondary text-xs"
+        >
+          📖 Terms
+        </button>
+        <button
+          onClick={() => setShowGlossary(true)}
+          title="Facility glossary"
+          className="f-btn f-btn--secondary text-xs"
+        >
+          📋 Glossary
+        </button>
+        <button
+          onClick={() => setShowVoices(true)}
+          title="Voice settings"
+          className="f-btn f-btn--secondary text-xs"
+        >
+          🔊 Voices
+        </button>
+        <button
+          onClick={() => setShowMicrophone(true)}
+          title="Microphone and pause detection"
+          className="f-btn f-btn--secondary text-xs"
+        >
+          🎚️ Mic
+        </button>
         <div className="flex items-center space-x-3 bg-slate-100/40 backdrop-blur-sm rounded-2xl p-1.5">
           <button 
             onClick={() => setSpeaker('provider')}
@@ -215,6 +569,7 @@ const App: React.FC = () => {
             👤 Patient
           </button>
         </div>
+        </div>
       </header>
 
       {/* Advanced Language Selector Bar */}
@@ -254,10 +609,69 @@ const App: React.FC = () => {
             ))}
           </select>
         </div>
+
+        <label className="flex items-center gap-2 ml-1 sm:ml-2 text-[10px] sm:text-xs font-bold text-slate-600 uppercase tracking-wider cursor-pointer select-none" title="Each party speaks their own language; recognition and direction follow the active speaker">
+          <input
+            type="checkbox"
+            checked={conversationMode}
+            onChange={(e) => setConversationMode(e.target.checked)}
+            className="w-4 h-4 accent-blue-600"
+          />
+          Conversation
+        </label>
+
+        <label className="flex items-center gap-2 ml-1 sm:ml-2 text-[10px] sm:text-xs font-bold text-slate-600 uppercase tracking-wider cursor-pointer select-none" title="Send the last few exchanges with each utterance so references like “how many times a day?” translate correctly (this session only)">
+          <input
+            type="checkbox"
+            checked={contextEnabled}
+            onChange={(e) => setContextEnabled(e.target.checked)}
+            className="w-4 h-4 accent-blue-600"
+          />
+          Context
+        </label>
+
+        <label className="flex items-center gap-2 ml-1 sm:ml-2 text-[10px] sm:text-xs font-bold text-slate-600 uppercase tracking-wider cursor-pointer select-none" title="Translate while the speaker is still talking for a live preview; uses extra translation requests">
+          <input
+            type="checkbox"
+            checked={lowLatency}
+            onChange={(e) => setLowLatency(e.target.checked)}
+            className="w-4 h-4 accent-blue-600"
+          />
+          Low latency
+        </label>
+
+        <label className="flex items-center gap-2 ml-1 sm:ml-2 text-[10px] sm:text-xs font-bold text-slate-600 uppercase tracking-wider cursor-pointer select-none" title="Read each new translation aloud as soon as it is ready">
+          <input
+            type="checkbox"
+            checked={autoSpeak}
+            onChange={(e) => setAutoSpeak(e.target.checked)}
+            className="w-4 h-4 accent-blue-600"
+          />
+          Auto-speak
+        </label>
+
+        <label className="flex items-center gap-2 ml-1 sm:ml-2 text-[10px] sm:text-xs font-bold text-slate-600 uppercase tracking-wider select-none" title="Speech speed; slower helps elderly patients">
+          Speed
+          <select
+            value={playback.rate}
+            onChange={(e) => setPlaybackRate(Number(e.target.value))}
+            className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 font-bold text-slate-700"
+          >
+            {PLAYBACK_RATES.map(rate => <option key={rate} value={rate}>{rate}×</option>)}
+          </select>
+        </label>
       </div>
 
       {/* Main Content / Transcript Area */}
       <main ref={scrollRef} className="flex-1 overflow-y-auto p-4 sm:p-6 md:p-10 custom-scrollbar bg-gradient-to-b from-slate-50 via-blue-50/30 to-slate-50">
+        {(!isOnline || queuedOfflineCount > 0) && (
+          <div role="status" className="mb-6 p-4 bg-amber-50 border-2 border-amber-200/70 rounded-3xl text-amber-800 text-sm font-semibold f-card">
+            {isOnline
+              ? `Back online. Translating ${queuedOfflineCount} queued ${queuedOfflineCount === 1 ? 'utterance' : 'utterances'}…`
+              : `📴 Offline. Only phrasebook phrases are translated; other utterances wait for the connection${queuedOfflineCount ? ` (${queuedOfflineCount} queued)` : ''}.`}
+          </div>
+        )}
+
         {error && (
           <div className="mb-8 p-5 bg-gradient-to-r from-red-50 to-red-50/50 border-2 border-red-200/60 rounded-3xl text-red-700 text-sm font-semibold flex items-center space-x-4 animate-in fade-in zoom-in slide-in-from-top-4 shadow-lg shadow-red-100/40 f-card">
             <div className="bg-red-100/80 p-2.5 rounded-xl flex-shrink-0">
@@ -271,8 +685,22 @@ const App: React.FC = () => {
 
         <TranscriptList 
           transcripts={transcripts} 
-          onSpeak={(text, lang, id) => speakText(text, lang, id || '')} 
-          isSpeakingId={isSpeaking}
+          onSpeak={speakText}
+          playback={playback}
+          onPausePlayback={pausePlayback}
+          onResumePlayback={resumePlayback}
+          onStopPlayback={stopPlayback}
+          onRetry={retryEntry}
+          onEditSource={editSource}
+          onOverrideTranslation={overrideTranslation}
+          editor={editor}
+          onEditorChange={setEditor}
+          onExport={handleExport}
+          onConfirmIntegrity={confirmIntegrity}
+          onToggleKeyInstruction={toggleKeyInstruction}
+          onStartTeachBack={startTeachBack}
+          onCancelTeachBack={cancelTeachBack}
+          lexicon={terminology.lexicon}
         />
 
         {/* Interim/Live Transcription */}
@@ -286,24 +714,29 @@ const App: React.FC = () => {
               <span className="text-xs font-bold text-blue-600 uppercase tracking-widest">🎙️ Listening in Real-Time</span>
             </div>
             <p className="text-slate-700 text-lg leading-relaxed font-semibold">{interimText}</p>
-          </div>
-        )}
-
-        {isTranslating && (
-          <div className="mt-8 flex items-center space-x-4 bg-gradient-to-r from-indigo-50/80 to-blue-50/80 p-5 rounded-3xl border-2 border-indigo-200/60 shadow-lg shadow-indigo-100/40 animate-in fade-in backdrop-blur-sm f-card">
-            <div className="flex space-x-2">
-              <div className="w-3 h-3 bg-gradient-to-r from-indigo-500 to-blue-500 rounded-full animate-bounce [animation-delay:-0.3s]"></div>
-              <div className="w-3 h-3 bg-gradient-to-r from-indigo-500 to-blue-500 rounded-full animate-bounce [animation-delay:-0.15s]"></div>
-              <div className="w-3 h-3 bg-gradient-to-r from-indigo-500 to-blue-500 rounded-full animate-bounce"></div>
-            </div>
-            <span className="text-xs font-bold text-indigo-700 uppercase tracking-widest">⚕️ AI Processing Medical Accuracy...</span>
+            {speculation.preview && (
+              <div className="mt-4 pt-4 border-t border-dashed border-blue-200/70" aria-live="off">
+                <span className="text-[10px] font-bold text-indigo-500 uppercase tracking-widest">⚡ Live preview — not yet final</span>
+                <p className="mt-1 text-indigo-700/80 text-base leading-relaxed font-medium italic" dir="auto">{speculation.preview.translatedText}</p>
+              </div>
+            )}
           </div>
         )}
       </main>
 
       {/* Premium Control Bar */}
       <div className="bg-white/95 backdrop-blur-xl border-t border-slate-100/40 px-4 sm:px-6 py-6 sm:py-8 flex flex-col items-center space-y-5 sm:space-y-6 shadow-[0_-8px_40px_rgba(0,0,0,0.08)] z-20 f-footer">
-        <div className="flex items-center justify-center w-full relative">
+        <div className={`w-full items-center gap-3 sm:gap-6 ${conversationMode ? 'grid grid-cols-[1fr_auto_1fr]' : 'flex justify-center'}`}>
+        {conversationMode && (
+          <PushToTalkButton
+            party="provider"
+            langCode={sourceLang}
+            isActive={isListening && speaker === 'provider'}
+            onPress={() => pressToTalk('provider')}
+            onRelease={releaseToTalk}
+          />
+        )}
+        <div className="flex items-center justify-center relative">
           {isListening && (
             <div className="absolute -top-3 sm:-top-4 text-center">
               <span className="text-[10px] sm:text-xs font-semibold text-blue-600/90 animate-pulse">
@@ -342,8 +775,21 @@ const App: React.FC = () => {
             <span className={`text-xs sm:text-sm font-black uppercase tracking-[0.15em] transition-all duration-300 ${isListening ? 'text-red-600 scale-110' : 'text-slate-500'}`}>
               {isListening ? '🔴 RECORDING' : '🎤 TAP TO TALK'}
             </span>
+            {isListening && (
+              <InputLevelMeter subscribe={subscribeLevel} threshold={vadSettings.speechLevel} className="mt-1.5 w-24 mx-auto" />
+            )}
           </div>
         </div>
+        {conversationMode && (
+          <PushToTalkButton
+            party="patient"
+            langCode={targetLang}
+            isActive={isListening && speaker === 'patient'}
+            onPress={() => pressToTalk('patient')}
+            onRelease={releaseToTalk}
+          />
+        )}
+        </div>
 
         <div className="pt-4 sm:pt-6 text-center max-w-md">
           <p className="text-[11px] sm:text-xs text-slate-500 font-semibold leading-relaxed">
@@ -354,47 +800,115 @@ const App: React.FC = () => {
 
       </div>
 
-      {/* One-time Medical Safety Disclaimer Modal */}
-      {showDisclaimer && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
-          {/* Backdrop */}
-          <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" aria-hidden="true"></div>
-          {/* Dialog */}
-          <div
-            role="dialog"
-            aria-modal="true"
-            aria-labelledby="disclaimer-title"
-            aria-describedby="disclaimer-desc"
-            className="relative bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-md p-6"
-          >
-            <div className="flex items-start gap-3">
-              <div className="shrink-0 w-10 h-10 rounded-xl bg-yellow-100 text-yellow-700 flex items-center justify-center">
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                  <path fillRule="evenodd" d="M10 2a8 8 0 100 16 8 8 0 000-16zM9 9a1 1 0 012 0v4a1 1 0 11-2 0V9zm1-5a1.5 1.5 0 100 3 1.5 1.5 0 000-3z" clipRule="evenodd" />
-                </svg>
-              </div>
-              <div>
-                <h2 id="disclaimer-title" className="text-lg font-bold text-slate-900">Medical Safety Disclaimer</h2>
-                <p id="disclaimer-desc" className="mt-2 text-slate-600">
-                  This tool assists communication between patients and healthcare providers and does not replace professional medical judgment.
-                </p>
-              </div>
-            </div>
+      {showHistory && (
+        <SessionHistory
+          sessions={sessions}
+          currentSessionId={currentSessionId}
+          retentionDays={retentionDays}
+          onResume={(session) => {
+            resumeSession(session);
+            setShowHistory(false);
+          }}
+          onRename={renameSession}
+          onDelete={removeSession}
+          onNewSession={endSession}
+          onRetentionChange={setRetentionDays}
+          keepSpeech={keepSpeech}
+          onKeepSpeechChange={changeKeepSpeech}
+          onWipe={panicWipe}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
 
-            <div className="mt-6 flex justify-end">
-              <button
-                ref={disclaimerButtonRef}
-                onClick={() => {
-                  try { localStorage.setItem('medical_disclaimer_ack', 'true'); } catch {}
-                  setShowDisclaimer(false);
-                }}
-                className="f-btn f-btn--primary"
-              >
-                I Understand
-              </button>
-            </div>
-          </div>
-        </div>
+      {showTeachBackSummary && (
+        <TeachBackSummary
+          transcripts={transcripts}
+          onConfirm={() => {
+            setShowTeachBackSummary(false);
+            startNewSession();
+          }}
+          onClose={() => setShowTeachBackSummary(false)}
+        />
+      )}
+
+      {showTerminology && (
+        <TerminologyPanel
+          lexicon={terminology.lexicon}
+          isCustom={terminology.isCustom}
+          onImport={terminology.importFile}
+          onReset={terminology.resetToDefault}
+          onClose={() => setShowTerminology(false)}
+        />
+      )}
+
+      {showGlossary && (
+        <GlossaryPanel
+          glossary={glossary}
+          defaultSourceLang={sourceLang}
+          defaultTargetLang={targetLang}
+          onSave={saveGlossaryEntry}
+          onRemove={removeGlossaryEntry}
+          onImport={importGlossaryCsv}
+          onClose={() => setShowGlossary(false)}
+        />
+      )}
+
+      {showPhrasebook && (
+        <PhrasebookPanel
+          fromLang={speaker === 'patient' ? targetLang : sourceLang}
+          toLang={speaker === 'patient' ? sourceLang : targetLang}
+          isOnline={isOnline}
+          onSay={sayPhrase}
+          onClose={() => setShowPhrasebook(false)}
+        />
+      )}
+
+      {showVisitSummary && (
+        <VisitSummaryPanel
+          summary={visitSummary.summary}
+          isGenerating={visitSummary.isGenerating}
+          error={visitSummary.error}
+          transcripts={transcripts}
+          onGenerate={visitSummary.generate}
+          onCancel={visitSummary.cancel}
+          onPrint={printPatientHandout}
+          onClose={() => setShowVisitSummary(false)}
+        />
+      )}
+
+      {showVoices && (
+        <VoiceSettingsPanel
+          settings={voiceSettings.settings}
+          browserVoices={voiceSettings.browserVoices}
+          rate={playback.rate}
+          onRateChange={setPlaybackRate}
+          onLanguageVoiceChange={voiceSettings.setLanguageVoice}
+          onPitchChange={voiceSettings.setPitch}
+          onStyleChange={voiceSettings.setStyle}
+          onPreview={previewVoice}
+          onReset={voiceSettings.reset}
+          onClose={() => setShowVoices(false)}
+        />
+      )}
+
+      {showMicrophone && (
+        <MicrophoneSettingsPanel
+          settings={vadSettings}
+          isListening={isListening}
+          subscribeLevel={subscribeLevel}
+          onChange={changeVadSettings}
+          onClose={() => setShowMicrophone(false)}
+        />
+      )}
+
+      {/* Disclaimer / passphrase setup on first run, unlock screen afterwards */}
+      {isLocked && (
+        <UnlockDialog
+          mode={vault.status === 'setup' ? 'setup' : 'locked'}
+          onSetup={vault.setup}
+          onUnlock={unlockApp}
+          onWipe={panicWipe}
+        />
       )}
     </div>
   );
@@ -0,0 +1,61 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExportFormat } from '../services/exportService';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+}
+
+const OPTIONS: { format: ExportFormat; label: string }[] = [
+  { format: 'print', label: '🖨️ Print / Save as PDF' },
+  { format: 'html', label: '📄 Bilingual report (HTML)' },
+  { format: 'text', label: '📝 Plain text' },
+  { format: 'csv', label: '📊 CSV' },
+  { format: 'fhir', label: '🏥 FHIR R4 Bundle' },
+];
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ onExport, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement | null>(null);
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+    const handlePointerDown = (event: PointerEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener('pointerdown', handlePointerDown);
+    return () => document.removeEventListener('pointerdown', handlePointerDown);
+  }, [isOpen]);
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        disabled={disabled}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="f-btn f-btn--secondary text-xs disabled:opacity-50"
+      >
+        📤 Export
+      </button>
+      {isOpen && (
+        <div role="menu" className="absolute right-0 mt-2 w-56 z-30 bg-white rounded-2xl shadow-xl border border-slate-200 p-1.5">
+          {OPTIONS.map(option => (
+            <button
+              key={option.format}
+              role="menuitem"
+              onClick={() => {
+                setIsOpen(false);
+                onExport(option.format);
+              }}
+              className="w-full text-left text-xs font-semibold text-slate-700 px-3 py-2 rounded-xl hover:bg-slate-100"
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
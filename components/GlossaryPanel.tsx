@@ -0,0 +1,184 @@
+import React, { useRef, useState } from 'react';
+import { GlossaryEntry, LANGUAGES } from '../types';
+
+interface GlossaryPanelProps {
+  glossary: GlossaryEntry[];
+  defaultSourceLang: string;
+  defaultTargetLang: string;
+  onSave: (entry: GlossaryEntry) => void;
+  onRemove: (id: string) => void;
+  onImport: (file: File) => Promise<number>;
+  onClose: () => void;
+}
+
+const emptyDraft = (sourceLang: string, targetLang: string) => ({
+  id: null as string | null,
+  sourceLang,
+  targetLang,
+  sourceTerm: '',
+  targetTerm: '',
+  forbidden: '',
+});
+
+export const GlossaryPanel: React.FC<GlossaryPanelProps> = ({
+  glossary,
+  defaultSourceLang,
+  defaultTargetLang,
+  onSave,
+  onRemove,
+  onImport,
+  onClose,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [draft, setDraft] = useState(() => emptyDraft(defaultSourceLang, defaultTargetLang));
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const getFlag = (code: string) => LANGUAGES.find(l => l.code === code)?.flag || code;
+
+  const edit = (entry: GlossaryEntry) => {
+    setDraft({ ...entry, forbidden: entry.forbidden.join(' | ') });
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.sourceTerm.trim() || !draft.targetTerm.trim()) return;
+    onSave({
+      id: draft.id ?? crypto.randomUUID(),
+      sourceLang: draft.sourceLang,
+      targetLang: draft.targetLang,
+      sourceTerm: draft.sourceTerm.trim(),
+      targetTerm: draft.targetTerm.trim(),
+      forbidden: draft.forbidden.split('|').map(f => f.trim()).filter(Boolean),
+    });
+    setDraft(emptyDraft(draft.sourceLang, draft.targetLang));
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const count = await onImport(file);
+      setMessage({ text: `Imported ${count} glossary ${count === 1 ? 'entry' : 'entries'}.`, isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Could not read that file.', isError: true });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-1.5 rounded-xl border-2 border-slate-200 text-sm font-medium focus:outline-none focus:border-blue-300';
+  const selectClass = 'bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-bold text-slate-700';
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" aria-hidden="true" onClick={onClose}></div>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="glossary-title"
+        className="relative bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-2xl p-6 max-h-[85vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 id="glossary-title" className="text-lg font-bold text-slate-900">Facility Glossary</h2>
+          <button onClick={onClose} className="f-btn f-btn--secondary text-xs" aria-label="Close facility glossary">
+            Close
+          </button>
+        </div>
+        <p className="text-xs text-slate-600 font-medium mb-4">
+          Mandated translations are sent with every utterance that contains the term. Translations that miss them are flagged.
+        </p>
+
+        <form onSubmit={submit} className="grid grid-cols-1 sm:grid-cols-2 gap-2 p-3 rounded-2xl bg-slate-50 border border-slate-100 mb-4">
+          <div className="flex gap-2">
+            <select
+              value={draft.sourceLang}
+              onChange={(e) => setDraft({ ...draft, sourceLang: e.target.value })}
+              aria-label="Source language"
+              className={selectClass}
+            >
+              {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.flag} {l.code}</option>)}
+            </select>
+            <input
+              value={draft.sourceTerm}
+              onChange={(e) => setDraft({ ...draft, sourceTerm: e.target.value })}
+              aria-label="Source term"
+              placeholder="e.g. hypoglycemia"
+              className={inputClass}
+            />
+          </div>
+          <div className="flex gap-2">
+            <select
+              value={draft.targetLang}
+              onChange={(e) => setDraft({ ...draft, targetLang: e.target.value })}
+              aria-label="Target language"
+              className={selectClass}
+            >
+              {LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.flag} {l.code}</option>)}
+            </select>
+            <input
+              value={draft.targetTerm}
+              onChange={(e) => setDraft({ ...draft, targetTerm: e.target.value })}
+              aria-label="Mandated translation"
+              placeholder="e.g. hipoglucemia"
+              className={inputClass}
+            />
+          </div>
+          <input
+            value={draft.forbidden}
+            onChange={(e) => setDraft({ ...draft, forbidden: e.target.value })}
+            aria-label="Forbidden translations"
+            placeholder="Forbidden translations, separated by |"
+            className={`${inputClass} sm:col-span-2`}
+          />
+          <div className="flex gap-2 sm:col-span-2">
+            <button type="submit" className="f-btn f-btn--primary text-xs">{draft.id ? 'Save Changes' : 'Add Term'}</button>
+            {draft.id && (
+              <button type="button" onClick={() => setDraft(emptyDraft(draft.sourceLang, draft.targetLang))} className="f-btn f-btn--secondary text-xs">
+                Cancel
+              </button>
+            )}
+            <button type="button" onClick={() => fileInputRef.current?.click()} className="f-btn f-btn--secondary text-xs ml-auto">
+              Import CSV
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => handleFile(e.target.files?.[0])}
+            />
+          </div>
+        </form>
+
+        {message && (
+          <p role="status" className={`mb-3 text-xs font-semibold ${message.isError ? 'text-red-600' : 'text-green-700'}`}>
+            {message.text}
+          </p>
+        )}
+
+        <ul className="overflow-y-auto custom-scrollbar space-y-2 flex-1">
+          {glossary.length === 0 && (
+            <li className="text-sm text-slate-500 text-center py-6">
+              No glossary terms yet. CSV header: <code>source_lang,source_term,target_lang,target_term,forbidden</code>
+            </li>
+          )}
+          {glossary.map(entry => (
+            <li key={entry.id} className="p-3 rounded-2xl border-2 border-slate-100 flex items-center justify-between gap-3">
+              <div className="min-w-0 text-sm">
+                <p className="font-bold text-slate-800 truncate" dir="auto">
+                  {getFlag(entry.sourceLang)} {entry.sourceTerm} → {getFlag(entry.targetLang)} {entry.targetTerm}
+                </p>
+                {entry.forbidden.length > 0 && (
+                  <p className="text-xs text-red-600 font-medium truncate" dir="auto">Never: {entry.forbidden.join(', ')}</p>
+                )}
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button onClick={() => edit(entry)} className="f-btn f-btn--secondary text-xs">Edit</button>
+                <button onClick={() => onRemove(entry.id)} className="f-btn f-btn--danger text-xs">Delete</button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React, { useEffect, useState } from 'react';
+
+interface InputLevelMeterProps {
+  subscribe: (listener: (level: number) => void) => () => void;
+  // Speech threshold, drawn as a tick so the sensitivity setting can be judged against real input
+  threshold: number;
+  className?: string;
+}
+
+// Square-root scale: speech RMS sits in the bottom few percent on a linear scale
+const toMeter = (level: number) => Math.min(1, Math.sqrt(level / 0.25));
+
+export const InputLevelMeter: React.FC<InputLevelMeterProps> = ({ subscribe, threshold, className = '' }) => {
+  const [level, setLevel] = useState(0);
+
+  useEffect(() => subscribe(setLevel), [subscribe]);
+
+  const isSpeech = level >= threshold;
+  return (
+    <div
+      role="meter"
+      aria-label="Microphone input level"
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(toMeter(level) * 100)}
+      className={`relative h-1.5 rounded-full bg-slate-200 overflow-hidden ${className}`}
+    >
+      <div
+        className={`h-full rounded-full transition-[width] duration-75 ${isSpeech ? 'bg-green-500' : 'bg-slate-400'}`}
+        style={{ width: `${toMeter(level) * 100}%` }}
+      ></div>
+      <div className="absolute inset-y-0 w-0.5 bg-slate-700" style={{ left: `${toMeter(threshold) * 100}%` }} aria-hidden="true"></div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import React from 'react';
+import { DEFAULT_VAD_SETTINGS, VAD_LIMITS, VadSettings } from '../services/voiceActivity';
+import { InputLevelMeter } from './InputLevelMeter';
+
+interface MicrophoneSettingsPanelProps {
+  settings: VadSettings;
+  isListening: boolean;
+  subscribeLevel: (listener: (level: number) => void) => () => void;
+  onChange: (settings: VadSettings) => void;
+  onClose: () => void;
+}
+
+const FIELDS: Array<{ key: keyof VadSettings; label: string; hint: string; format: (value: number) => string }> = [
+  { key: 'speechLevel', label: 'Speech threshold', hint: 'Raise it in a noisy room; lower it for quiet speakers.', format: v => v.toFixed(3) },
+  { key: 'endSilenceMs', label: 'Pause that ends an utterance', hint: 'Longer pauses keep slow speakers in one utterance.', format: v => `${(v / 1000).toFixed(1)} s` },
+  { key: 'minUtteranceMs', label: 'Shortest utterance', hint: 'Shorter sounds are ignored as coughs and clicks.', format: v => `${(v / 1000).toFixed(2)} s` },
+  { key: 'maxUtteranceMs', label: 'Longest utterance', hint: 'Longer speech is split at the last pause and translated in parts.', format: v => `${v / 1000} s` },
+];
+
+export const MicrophoneSettingsPanel: React.FC<MicrophoneSettingsPanelProps> = ({
+  settings,
+  isListening,
+  subscribeLevel,
+  onChange,
+  onClose,
+}) => (
+  <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+    <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" aria-hidden="true" onClick={onClose}></div>
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="microphone-settings-title"
+      className="relative bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-lg p-6 max-h-[85vh] flex flex-col"
+    >
+      <div className="flex items-center justify-between mb-2">
+        <h2 id="microphone-settings-title" className="text-lg font-bold text-slate-900">Microphone</h2>
+        <button onClick={onClose} className="f-btn f-btn--secondary text-xs" aria-label="Close microphone settings">
+          Close
+        </button>
+      </div>
+      <p className="text-xs text-slate-600 font-medium mb-4">
+        Speech is split into utterances at pauses. The meter turns green above the threshold (the dark tick).
+      </p>
+
+      <div className="p-3 rounded-2xl bg-slate-50 border border-slate-100 mb-4">
+        <InputLevelMeter subscribe={subscribeLevel} threshold={settings.speechLevel} className="h-3" />
+        {!isListening && <p className="mt-2 text-xs text-slate-500 font-medium">Start listening to see the input level.</p>}
+      </div>
+
+      <div className="overflow-y-auto custom-scrollbar space-y-4 flex-1">
+        {FIELDS.map(({ key, label, hint, format }) => (
+          <label key={key} className="block text-xs font-bold text-slate-700">
+            <span className="flex justify-between">
+              {label}
+              <span className="text-slate-500">{format(settings[key])}</span>
+            </span>
+            <input
+              type="range"
+              min={VAD_LIMITS[key].min}
+              max={VAD_LIMITS[key].max}
+              step={VAD_LIMITS[key].step}
+              value={settings[key]}
+              onChange={(e) => onChange({ ...settings, [key]: Number(e.target.value) })}
+              className="w-full accent-blue-600"
+            />
+            <span className="block font-medium text-slate-500">{hint}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="mt-4 flex justify-end">
+        <button onClick={() => onChange(DEFAULT_VAD_SETTINGS)} className="f-btn f-btn--secondary text-xs">Restore Defaults</button>
+      </div>
+    </div>
+  </div>
+);
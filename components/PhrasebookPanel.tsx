@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { Phrase, PHRASE_CATEGORIES, PHRASEBOOK, PhraseCategory } from '../services/phrasebook';
+
+interface PhrasebookPanelProps {
+  // Direction of the current speaker: phrases are said in `fromLang` and shown to the listener in `toLang`
+  fromLang: string;
+  toLang: string;
+  isOnline: boolean;
+  onSay: (phrase: Phrase) => void;
+  onClose: () => void;
+}
+
+// Vetted phrases that work without a connection; picking one adds it to the transcript and reads it aloud
+export const PhrasebookPanel: React.FC<PhrasebookPanelProps> = ({ fromLang, toLang, isOnline, onSay, onClose }) => {
+  const [category, setCategory] = useState<PhraseCategory>('pain');
+  const phrases = PHRASEBOOK.filter(phrase => phrase.category === category && phrase.text[fromLang] && phrase.text[toLang]);
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" aria-hidden="true" onClick={onClose}></div>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="phrasebook-title"
+        className="relative bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-lg p-6 max-h-[85vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 id="phrasebook-title" className="text-lg font-bold text-slate-900">Phrasebook</h2>
+          <button onClick={onClose} className="f-btn f-btn--secondary text-xs" aria-label="Close phrasebook">
+            Close
+          </button>
+        </div>
+        <p className="text-xs text-slate-600 font-medium mb-3">
+          Pre-translated, vetted phrases that work offline.
+          {!isOnline && ' You are offline: spoken phrases that match one of these are translated from the phrasebook, and anything else waits for the connection.'}
+        </p>
+
+        <div className="flex flex-wrap gap-2 mb-3" role="tablist">
+          {(Object.keys(PHRASE_CATEGORIES) as PhraseCategory[]).map(id => (
+            <button
+              key={id}
+              role="tab"
+              aria-selected={category === id}
+              onClick={() => setCategory(id)}
+              className={`f-btn text-xs ${category === id ? 'f-btn--primary' : 'f-btn--secondary'}`}
+            >
+              {PHRASE_CATEGORIES[id]}
+            </button>
+          ))}
+        </div>
+
+        <ul className="overflow-y-auto custom-scrollbar space-y-2 flex-1">
+          {phrases.map(phrase => (
+            <li key={phrase.id}>
+              <button
+                onClick={() => onSay(phrase)}
+                className="w-full text-left p-3 rounded-2xl border-2 border-slate-100 hover:border-amber-300 hover:bg-amber-50 transition-colors"
+              >
+                <p className="text-sm font-semibold text-slate-800" dir="auto">{phrase.text[fromLang]}</p>
+                <p className="text-sm text-slate-600" dir="auto">{phrase.text[toLang]}</p>
+              </button>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
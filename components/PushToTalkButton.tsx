@@ -0,0 +1,61 @@
+import React from 'react';
+import { LANGUAGES, TranscriptEntry } from '../types';
+
+interface PushToTalkButtonProps {
+  party: TranscriptEntry['speaker'];
+  langCode: string;
+  isActive: boolean;
+  onPress: () => void;
+  onRelease: () => void;
+}
+
+// Hold-to-talk control for one party; sized for a split-screen tablet layout
+export const PushToTalkButton: React.FC<PushToTalkButtonProps> = ({ party, langCode, isActive, onPress, onRelease }) => {
+  const language = LANGUAGES.find(l => l.code === langCode);
+  const isProvider = party === 'provider';
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if ((event.key === ' ' || event.key === 'Enter') && !event.repeat) {
+      event.preventDefault();
+      onPress();
+    }
+  };
+
+  const handleKeyUp = (event: React.KeyboardEvent) => {
+    if (event.key === ' ' || event.key === 'Enter') {
+      event.preventDefault();
+      onRelease();
+    }
+  };
+
+  return (
+    <button
+      onPointerDown={(e) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        onPress();
+      }}
+      onPointerUp={onRelease}
+      onPointerCancel={onRelease}
+      onKeyDown={handleKeyDown}
+      onKeyUp={handleKeyUp}
+      onContextMenu={(e) => e.preventDefault()}
+      aria-pressed={isActive}
+      aria-label={`Hold to talk as ${isProvider ? 'provider' : 'patient'} in ${language?.name ?? langCode}`}
+      className={`w-full min-h-[96px] sm:min-h-[120px] flex flex-col items-center justify-center gap-1 rounded-3xl border-2 font-bold select-none touch-none transition-all duration-300 ${
+        isActive
+          ? isProvider
+            ? 'bg-gradient-to-br from-blue-500 to-blue-600 text-white border-blue-400 shadow-lg shadow-blue-300/50 scale-[1.02]'
+            : 'bg-gradient-to-br from-emerald-500 to-teal-600 text-white border-emerald-400 shadow-lg shadow-emerald-300/50 scale-[1.02]'
+          : isProvider
+            ? 'bg-blue-50/80 text-blue-700 border-blue-200 hover:bg-blue-100/80'
+            : 'bg-emerald-50/80 text-emerald-700 border-emerald-200 hover:bg-emerald-100/80'
+      }`}
+    >
+      <span className="text-2xl sm:text-3xl">{language?.flag}</span>
+      <span className="text-xs sm:text-sm uppercase tracking-widest">{isProvider ? '🏥 Provider' : '👤 Patient'}</span>
+      <span className="text-[10px] sm:text-xs font-semibold opacity-80">
+        {isActive ? 'Listening… release to send' : `Hold to talk • ${language?.name ?? langCode}`}
+      </span>
+    </button>
+  );
+};
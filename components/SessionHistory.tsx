@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { EncounterSession, LANGUAGES } from '../types';
+import { RETENTION_OPTIONS } from '../hooks/useEncounterSession';
+
+interface SessionHistoryProps {
+  sessions: EncounterSession[];
+  currentSessionId: string | null;
+  retentionDays: number;
+  onResume: (session: EncounterSession) => void;
+  onRename: (session: EncounterSession, label: string) => void;
+  onDelete: (session: EncounterSession) => void;
+  onNewSession: () => void;
+  onRetentionChange: (days: number) => void;
+  keepSpeech: boolean;
+  onKeepSpeechChange: (enabled: boolean) => void;
+  onWipe: () => void;
+  onClose: () => void;
+}
+
+export const SessionHistory: React.FC<SessionHistoryProps> = ({
+  sessions,
+  currentSessionId,
+  retentionDays,
+  onResume,
+  onRename,
+  onDelete,
+  onNewSession,
+  onRetentionChange,
+  keepSpeech,
+  onKeepSpeechChange,
+  onWipe,
+  onClose,
+}) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const getFlag = (code: string) => LANGUAGES.find(l => l.code === code)?.flag || code;
+  const formatDate = (date: Date) =>
+    date.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+  const startRenaming = (session: EncounterSession) => {
+    setRenamingId(session.id);
+    setDraft(session.label ?? '');
+  };
+
+  const commitRename = (session: EncounterSession) => {
+    setRenamingId(null);
+    onRename(session, draft);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" aria-hidden="true" onClick={onClose}></div>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="history-title"
+        className="relative bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-lg p-6 max-h-[85vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 id="history-title" className="text-lg font-bold text-slate-900">Session History</h2>
+          <button onClick={onClose} className="f-btn f-btn--secondary text-xs" aria-label="Close session history">
+            Close
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 mb-4 text-xs font-semibold text-slate-600">
+          <label className="flex items-center gap-2">
+            Auto-delete after
+            <select
+              value={retentionDays}
+              onChange={(e) => onRetentionChange(Number(e.target.value))}
+              className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 font-bold text-slate-700"
+            >
+              {RETENTION_OPTIONS.map(days => (
+                <option key={days} value={days}>{days === 1 ? '1 day' : `${days} days`}</option>
+              ))}
+            </select>
+          </label>
+          <button onClick={onNewSession} className="f-btn f-btn--primary text-xs">
+            New Session
+          </button>
+        </div>
+
+        <label className="flex items-center gap-2 mb-4 text-xs font-semibold text-slate-600 cursor-pointer select-none" title="Replays work offline and cost no quota; clips are encrypted and follow the same retention">
+          <input
+            type="checkbox"
+            checked={keepSpeech}
+            onChange={(e) => onKeepSpeechChange(e.target.checked)}
+            className="w-4 h-4 accent-blue-600"
+          />
+          Keep synthesized speech on this device (encrypted)
+        </label>
+
+        <ul className="overflow-y-auto custom-scrollbar space-y-3 flex-1">
+          {sessions.length === 0 && (
+            <li className="text-sm text-slate-500 text-center py-8">No saved sessions on this device.</li>
+          )}
+          {sessions.map(session => (
+            <li
+              key={session.id}
+              className={`p-4 rounded-2xl border-2 ${
+                session.id === currentSessionId ? 'border-blue-300 bg-blue-50/60' : 'border-slate-100 bg-white'
+              }`}
+            >
+              {renamingId === session.id ? (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    commitRename(session);
+                  }}
+                  className="flex gap-2"
+                >
+                  <input
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    aria-label="Session label"
+                    placeholder="e.g. Room 4 follow-up"
+                    autoFocus
+                    className="flex-1 px-3 py-1.5 rounded-xl border-2 border-slate-200 text-sm font-medium focus:outline-none focus:border-blue-300"
+                  />
+                  <button type="submit" className="f-btn f-btn--primary text-xs">Save</button>
+                  <button type="button" onClick={() => setRenamingId(null)} className="f-btn f-btn--secondary text-xs">Cancel</button>
+                </form>
+              ) : (
+                <>
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-bold text-slate-800 text-sm truncate">
+                      {session.label || `Session ${formatDate(session.startedAt)}`}
+                    </span>
+                    <span className="text-lg shrink-0">{getFlag(session.sourceLang)} ⇄ {getFlag(session.targetLang)}</span>
+                  </div>
+                  <p className="mt-1 text-xs text-slate-500 font-medium">
+                    {formatDate(session.startedAt)} – {session.endedAt ? formatDate(session.endedAt) : 'in progress'}
+                    {' • '}{session.transcripts.length} {session.transcripts.length === 1 ? 'utterance' : 'utterances'}
+                  </p>
+                  <div className="mt-3 flex gap-2">
+                    <button
+                      onClick={() => onResume(session)}
+                      disabled={session.id === currentSessionId}
+                      className="f-btn f-btn--primary text-xs disabled:opacity-50"
+                    >
+                      {session.id === currentSessionId ? 'Active' : 'Resume'}
+                    </button>
+                    <button onClick={() => startRenaming(session)} className="f-btn f-btn--secondary text-xs">
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (window.confirm('Delete this session and its transcript from this device?')) onDelete(session);
+                      }}
+                      className="f-btn f-btn--danger text-xs">
+                      Delete
+                    </button>
+                  </div>
+                </>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        <div className="mt-4 pt-4 border-t border-slate-100 flex justify-end">
+          <button
+            onClick={() => {
+              if (window.confirm('Permanently delete all stored sessions on this device? This cannot be undone.')) onWipe();
+            }}
+            className="f-btn f-btn--danger text-xs"
+          >
+            Panic Wipe
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
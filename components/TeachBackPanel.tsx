@@ -0,0 +1,67 @@
+import React from 'react';
+import { TeachBackOutcome, TranscriptEntry } from '../types';
+import { TEACH_BACK_LABELS } from '../services/teachBack';
+
+export const OUTCOME_STYLES: Record<TeachBackOutcome, string> = {
+  understood: 'bg-green-50 text-green-700 border-green-200',
+  partial: 'bg-amber-50 text-amber-700 border-amber-200',
+  'not-understood': 'bg-red-50 text-red-700 border-red-200',
+};
+
+interface TeachBackPanelProps {
+  entry: TranscriptEntry;
+  onStart: (entry: TranscriptEntry) => void;
+  onCancel: (entryId: string) => void;
+}
+
+// Teach-back state of a key instruction, shown under its cards
+export const TeachBackPanel: React.FC<TeachBackPanelProps> = ({ entry, onStart, onCancel }) => {
+  const teachBack = entry.teachBack;
+
+  return (
+    <div role="status" className="mx-2 p-3 rounded-2xl bg-violet-50/80 border-2 border-violet-200/70 text-xs text-violet-900 font-semibold space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="uppercase tracking-wider">⭐ Key instruction • Teach-back</p>
+        {teachBack?.status === 'done' && teachBack.outcome && (
+          <span className={`text-[10px] font-bold uppercase tracking-wider px-3 py-1 rounded-full border ${OUTCOME_STYLES[teachBack.outcome]}`}>
+            {TEACH_BACK_LABELS[teachBack.outcome]}
+          </span>
+        )}
+      </div>
+
+      {!teachBack && (
+        <button onClick={() => onStart(entry)} className="f-btn f-btn--secondary text-xs">
+          🔁 Ask Patient to Repeat Back
+        </button>
+      )}
+
+      {teachBack?.status === 'awaiting' && (
+        <>
+          <p className="font-medium">Waiting for the patient to repeat the instruction in their own words…</p>
+          <div className="flex gap-2">
+            <button onClick={() => onStart(entry)} className="f-btn f-btn--secondary text-xs">Ask Again</button>
+            <button onClick={() => onCancel(entry.id)} className="f-btn f-btn--secondary text-xs">Cancel</button>
+          </div>
+        </>
+      )}
+
+      {teachBack?.status === 'assessing' && (
+        <p className="font-medium animate-pulse">Comparing the patient's reply with the instruction…</p>
+      )}
+
+      {teachBack?.status === 'done' && (
+        <>
+          {teachBack.explanation && <p className="font-medium">{teachBack.explanation}</p>}
+          {teachBack.gaps && teachBack.gaps.length > 0 && (
+            <ul className="list-disc pl-5 space-y-0.5 font-medium" dir="auto">
+              {teachBack.gaps.map(gap => <li key={gap}>{gap}</li>)}
+            </ul>
+          )}
+          <button onClick={() => onStart(entry)} className="f-btn f-btn--secondary text-xs">
+            Repeat Teach-back
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
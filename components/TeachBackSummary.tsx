@@ -0,0 +1,64 @@
+import React from 'react';
+import { TranscriptEntry } from '../types';
+import { TEACH_BACK_LABELS } from '../services/teachBack';
+import { OUTCOME_STYLES } from './TeachBackPanel';
+
+interface TeachBackSummaryProps {
+  transcripts: TranscriptEntry[];
+  onConfirm: () => void;
+  onClose: () => void;
+}
+
+// Shown before a session ends so unconfirmed instructions are not missed
+export const TeachBackSummary: React.FC<TeachBackSummaryProps> = ({ transcripts, onConfirm, onClose }) => {
+  const instructions = transcripts.filter(e => e.keyInstruction);
+  const understood = instructions.filter(e => e.teachBack?.outcome === 'understood').length;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" aria-hidden="true" onClick={onClose}></div>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="teach-back-summary-title"
+        className="relative bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-lg p-6 max-h-[85vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 id="teach-back-summary-title" className="text-lg font-bold text-slate-900">Teach-back Summary</h2>
+          <button onClick={onClose} className="f-btn f-btn--secondary text-xs" aria-label="Close teach-back summary">
+            Close
+          </button>
+        </div>
+        <p className="text-xs text-slate-600 font-medium mb-4">
+          {understood} of {instructions.length} key {instructions.length === 1 ? 'instruction was' : 'instructions were'} confirmed as understood.
+        </p>
+
+        <ul className="overflow-y-auto custom-scrollbar space-y-2 flex-1">
+          {instructions.map(entry => {
+            const outcome = entry.teachBack?.status === 'done' ? entry.teachBack.outcome : undefined;
+            return (
+              <li key={entry.id} className="p-3 rounded-2xl border-2 border-slate-100 text-sm space-y-1">
+                <span
+                  className={`inline-block text-[10px] font-bold uppercase tracking-wider px-3 py-0.5 rounded-full border ${
+                    outcome ? OUTCOME_STYLES[outcome] : 'bg-slate-50 text-slate-600 border-slate-200'
+                  }`}
+                >
+                  {outcome ? TEACH_BACK_LABELS[outcome] : 'Not checked'}
+                </span>
+                <p className="font-medium text-slate-800 break-words" dir="auto">{entry.originalText}</p>
+                {entry.teachBack?.gaps && entry.teachBack.gaps.length > 0 && (
+                  <p className="text-xs text-slate-600" dir="auto">Gaps: {entry.teachBack.gaps.join('; ')}</p>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="mt-4 flex justify-end gap-2">
+          <button onClick={onClose} className="f-btn f-btn--secondary text-xs">Back to Session</button>
+          <button onClick={onConfirm} className="f-btn f-btn--primary text-xs">End Session &amp; Start New</button>
+        </div>
+      </div>
+    </div>
+  );
+};
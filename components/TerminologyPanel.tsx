@@ -0,0 +1,97 @@
+import React, { useRef, useState } from 'react';
+import { TermCategory } from '../types';
+import { Lexicon, TERM_CATEGORIES } from '../services/terminology';
+
+interface TerminologyPanelProps {
+  lexicon: Lexicon;
+  isCustom: boolean;
+  onImport: (file: File) => Promise<number>;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+export const CATEGORY_LABELS: Record<TermCategory, string> = {
+  drug: 'Drug',
+  condition: 'Condition',
+  procedure: 'Procedure',
+  anatomy: 'Anatomy',
+};
+
+export const TerminologyPanel: React.FC<TerminologyPanelProps> = ({ lexicon, isCustom, onImport, onReset, onClose }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const countFor = (category: TermCategory) => lexicon.entries.filter(entry => entry.category === category).length;
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const count = await onImport(file);
+      setMessage({ text: `Imported ${count} ${count === 1 ? 'term' : 'terms'} from ${file.name}.`, isError: false });
+    } catch (err) {
+      setMessage({ text: err instanceof Error ? err.message : 'Could not read that file.', isError: true });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" aria-hidden="true" onClick={onClose}></div>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="terminology-title"
+        className="relative bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-lg p-6 max-h-[85vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 id="terminology-title" className="text-lg font-bold text-slate-900">Medical Terminology</h2>
+          <button onClick={onClose} className="f-btn f-btn--secondary text-xs" aria-label="Close terminology settings">
+            Close
+          </button>
+        </div>
+
+        <p className="text-xs text-slate-600 font-medium mb-3">
+          {isCustom ? 'Using an imported lexicon' : 'Using the built-in lexicon'} with {lexicon.entries.length} terms.
+          Highlighted terms show their category and equivalent in the other language on hover.
+        </p>
+
+        <ul className="grid grid-cols-2 gap-2 mb-4">
+          {TERM_CATEGORIES.map(category => (
+            <li key={category} className="med-highlight flex items-center justify-between text-xs font-bold" data-category={category}>
+              <span>{CATEGORY_LABELS[category]}</span>
+              <span>{countFor(category)}</span>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => fileInputRef.current?.click()} className="f-btn f-btn--primary text-xs">
+            Import JSON / CSV
+          </button>
+          {isCustom && (
+            <button onClick={onReset} className="f-btn f-btn--secondary text-xs">
+              Restore Built-in Lexicon
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </div>
+        <p className="mt-2 text-[11px] text-slate-500">
+          CSV header: <code>id,category,en-US,es-ES,…</code> — separate synonyms with <code>|</code>.
+        </p>
+
+        {message && (
+          <p role="status" className={`mt-3 text-xs font-semibold ${message.isError ? 'text-red-600' : 'text-green-700'}`}>
+            {message.text}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
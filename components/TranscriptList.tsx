@@ -1,50 +1,195 @@
 
-import React from 'react';
-import { TranscriptEntry, LANGUAGES } from '../types';
+import React, { useState } from 'react';
+import { EDITOR_ROLES, EditorIdentity, EditorRole, EntryRevision, TranscriptEntry, TranslationQuality, LANGUAGES } from '../types';
+import { ExportFormat } from '../services/exportService';
+import { Lexicon } from '../services/terminology';
+import { PlaybackState } from '../hooks/useAudioPlayback';
+import { ExportMenu } from './ExportMenu';
+import { CATEGORY_LABELS } from './TerminologyPanel';
+import { TeachBackPanel } from './TeachBackPanel';
 
 interface TranscriptListProps {
   transcripts: TranscriptEntry[];
-  onSpeak: (text: string, langCode: string, entryId: string) => void;
-  isSpeakingId?: string | null;
+  onSpeak: (entryId: string) => void;
+  playback: PlaybackState;
+  onPausePlayback: () => void;
+  onResumePlayback: () => void;
+  onStopPlayback: () => void;
+  onRetry: (entry: TranscriptEntry) => void;
+  onEditSource: (entry: TranscriptEntry, text: string) => void;
+  onOverrideTranslation: (entry: TranscriptEntry, text: string) => void;
+  editor: EditorIdentity;
+  onEditorChange: (editor: EditorIdentity) => void;
+  onExport: (format: ExportFormat) => void;
+  onConfirmIntegrity: (entryId: string) => void;
+  onToggleKeyInstruction: (entryId: string) => void;
+  onStartTeachBack: (entry: TranscriptEntry) => void;
+  onCancelTeachBack: (entryId: string) => void;
+  lexicon: Lexicon;
 }
 
-export const TranscriptList: React.FC<TranscriptListProps> = ({ transcripts, onSpeak, isSpeakingId }) => {
+// Confidence badge from the back-translation quality check
+const CONFIDENCE_BADGES: Record<TranslationQuality['level'] | 'checking', { label: string; className: string }> = {
+  checking: { label: 'Checking…', className: 'bg-slate-50 text-slate-500 border-slate-200' },
+  high: { label: 'High Confidence', className: 'bg-green-50 text-green-700 border-green-200' },
+  medium: { label: 'Medium Confidence', className: 'bg-yellow-50 text-yellow-700 border-yellow-200' },
+  low: { label: 'Low Confidence', className: 'bg-red-50 text-red-700 border-red-200' },
+  unknown: { label: 'Unverified', className: 'bg-slate-50 text-slate-600 border-slate-200' },
+};
+
+const translationLabel = (entry: TranscriptEntry) =>
+  entry.phrasebookId ? 'Phrasebook Translation' : entry.manualTranslation ? 'Staff Translation' : 'AI-Assisted Translation';
+
+const formatMs = (ms: number) => (ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`);
+
+const REVISION_LABELS: Record<EntryRevision['reason'], string> = {
+  correction: 'Original corrected',
+  override: 'Translation overridden',
+  retranslation: 'Retranslated',
+};
+
+interface EntryEditorProps {
+  label: string;
+  draft: string;
+  onDraftChange: (draft: string) => void;
+  editor: EditorIdentity;
+  onEditorChange: (editor: EditorIdentity) => void;
+  submitLabel: string;
+  onSubmit: () => void;
+  onCancel: () => void;
+  dir?: string;
+}
+
+// Inline text editor that also records who is making the change
+const EntryEditor: React.FC<EntryEditorProps> = ({
+  label,
+  draft,
+  onDraftChange,
+  editor,
+  onEditorChange,
+  submitLabel,
+  onSubmit,
+  onCancel,
+  dir,
+}) => (
+  <div className="mt-4 space-y-3">
+    <textarea
+      value={draft}
+      onChange={(e) => onDraftChange(e.target.value)}
+      aria-label={label}
+      rows={3}
+      dir={dir}
+      className="w-full p-3 rounded-2xl border-2 border-slate-200 bg-white text-slate-700 text-sm font-medium focus:outline-none focus:border-blue-300"
+    />
+    <div className="flex flex-wrap items-center gap-2">
+      <input
+        value={editor.name}
+        onChange={(e) => onEditorChange({ ...editor, name: e.target.value })}
+        aria-label="Your name or initials"
+        placeholder="Your name or initials"
+        className="px-3 py-1.5 rounded-xl border-2 border-slate-200 text-xs font-medium focus:outline-none focus:border-blue-300 w-40"
+      />
+      <select
+        value={editor.role}
+        onChange={(e) => onEditorChange({ ...editor, role: e.target.value as EditorRole })}
+        aria-label="Your role"
+        className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-bold text-slate-700"
+      >
+        {Object.entries(EDITOR_ROLES).map(([role, roleLabel]) => <option key={role} value={role}>{roleLabel}</option>)}
+      </select>
+      <button onClick={onSubmit} disabled={!draft.trim()} className="f-btn f-btn--primary text-xs">
+        {submitLabel}
+      </button>
+      <button onClick={onCancel} className="f-btn f-btn--secondary text-xs">
+        Cancel
+      </button>
+    </div>
+  </div>
+);
+
+export const TranscriptList: React.FC<TranscriptListProps> = ({
+  transcripts,
+  onSpeak,
+  playback,
+  onPausePlayback,
+  onResumePlayback,
+  onStopPlayback,
+  onRetry,
+  onEditSource,
+  onOverrideTranslation,
+  editor,
+  onEditorChange,
+  onExport,
+  onConfirmIntegrity,
+  onToggleKeyInstruction,
+  onStartTeachBack,
+  onCancelTeachBack,
+  lexicon,
+}) => {
   const getLangName = (code: string) => LANGUAGES.find(l => l.code === code)?.name || code;
+  const [editing, setEditing] = useState<{ id: string; field: EntryRevision['field'] } | null>(null);
+  const [draft, setDraft] = useState('');
+
+  const startEditing = (entry: TranscriptEntry, field: EntryRevision['field']) => {
+    setEditing({ id: entry.id, field });
+    setDraft(entry[field]);
+  };
 
-  // Common medical terms to highlight (case-insensitive)
-  const MEDICAL_TERMS = new Set<string>([
-    'hypertension',
-    'diabetes',
-    'dosage',
-    'insulin',
-    'fever',
-    'blood pressure',
-    'antibiotic',
-    'allergy'
-  ]);
-
-  // Utility: wrap detected medical terms in a styled span, preserving plain text between matches
-  const highlightMedicalTerms = (text: string): React.ReactNode => {
-    const escaped = Array.from(MEDICAL_TERMS)
-      .map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
-    const regex = new RegExp(`\\b(${escaped.join('|')})\\b`, 'gi');
+  const isEditing = (entry: TranscriptEntry, field: EntryRevision['field']) =>
+    editing?.id === entry.id && editing.field === field;
 
+  // Anything that retranslates an entry asks before a staff translation is replaced
+  const confirmReplacingStaffTranslation = (entry: TranscriptEntry) =>
+    !entry.manualTranslation ||
+    window.confirm('Replace the staff translation with a new machine translation? It stays in the revision history.');
+
+  const submitEdit = (entry: TranscriptEntry) => {
+    if (editing?.field === 'originalText') {
+      // A corrected source is retranslated; declining keeps the editor open
+      const changed = draft.trim() && draft.trim() !== entry.originalText;
+      if (changed && !confirmReplacingStaffTranslation(entry)) return;
+      onEditSource(entry, draft.trim());
+    } else {
+      onOverrideTranslation(entry, draft.trim());
+    }
+    setEditing(null);
+  };
+
+  const editorProps = (entry: TranscriptEntry) => ({
+    draft,
+    onDraftChange: setDraft,
+    editor,
+    onEditorChange,
+    onSubmit: () => submitEdit(entry),
+    onCancel: () => setEditing(null),
+  });
+
+  // Wrap lexicon terms in a styled span whose tooltip gives the category and the other language's term
+  const highlightMedicalTerms = (text: string, lang: string, otherLang: string): React.ReactNode => {
     const nodes: React.ReactNode[] = [];
     let lastIndex = 0;
-    let match: RegExpExecArray | null;
 
-    while ((match = regex.exec(text)) !== null) {
-      const start = match.index;
-      const end = regex.lastIndex;
-      if (start > lastIndex) {
-        nodes.push(text.slice(lastIndex, start));
+    for (const match of lexicon.findTerms(text, lang)) {
+      if (match.start > lastIndex) {
+        nodes.push(text.slice(lastIndex, match.start));
       }
+      const equivalent = lexicon.getEquivalent(match.value, otherLang);
+      const label = `${CATEGORY_LABELS[match.value.category]}${equivalent ? ` · ${getLangName(otherLang)}: ${equivalent}` : ''}`;
       nodes.push(
-        <span key={`${start}-${end}`} className="med-highlight">
-          {match[0]}
+        <span key={`${match.start}-${match.end}`} className="relative inline group/term">
+          <span className="med-highlight" data-category={match.value.category} tabIndex={0} aria-label={`${match.text} (${label})`}>
+            {match.text}
+          </span>
+          <span
+            role="tooltip"
+            dir="auto"
+            className="absolute z-30 left-1/2 -translate-x-1/2 -top-1 -translate-y-full px-2 py-1 rounded-md text-[11px] font-semibold whitespace-nowrap bg-slate-900 text-white shadow-lg opacity-0 pointer-events-none group-hover/term:opacity-100 group-focus-within/term:opacity-100 transition-opacity duration-200"
+          >
+            {label}
+          </span>
         </span>
       );
-      lastIndex = end;
+      lastIndex = match.end;
     }
     if (lastIndex < text.length) {
       nodes.push(text.slice(lastIndex));
@@ -52,13 +197,6 @@ export const TranscriptList: React.FC<TranscriptListProps> = ({ transcripts, onS
     return nodes.length ? nodes : text;
   };
 
-  // UI utility: translation confidence based on relative length
-  const getTranslationConfidence = (original: string, translated: string): 'high' | 'medium' => {
-    const o = original?.trim().length || 0;
-    const t = translated?.trim().length || 0;
-    if (o === 0) return 'medium';
-    return t / o >= 0.8 ? 'high' : 'medium';
-  };
 
   if (transcripts.length === 0) {
     return (
@@ -71,7 +209,7 @@ export const TranscriptList: React.FC<TranscriptListProps> = ({ transcripts, onS
           </div>
           <p className="text-center font-bold text-slate-800 text-2xl mb-3">Ready for Consultation</p>
           <p className="text-base text-center text-slate-500 max-w-sm leading-relaxed font-medium">Start speaking now and watch real-time medical translation happen instantly. Your words matter.</p>
-          <p className="mt-3 text-xs text-slate-400 font-semibold">🔒 Conversations are not stored or shared.</p>
+          <p className="mt-3 text-xs text-slate-400 font-semibold">🔒 Conversations stay encrypted on this device and are deleted automatically.</p>
         </div>
       </div>
     );
@@ -79,6 +217,9 @@ export const TranscriptList: React.FC<TranscriptListProps> = ({ transcripts, onS
 
   return (
     <div className="space-y-5 sm:space-y-6 pb-28 sm:pb-32">
+      <div className="flex justify-end px-2">
+        <ExportMenu onExport={onExport} />
+      </div>
       {transcripts.map((entry, idx) => (
         <div key={entry.id} className="flex flex-col space-y-3 sm:space-y-4 animate-in fade-in slide-in-from-bottom-8 duration-700" style={{animationDelay: `${idx * 50}ms`} }>
           <div className="flex justify-between items-center px-2">
@@ -96,6 +237,30 @@ export const TranscriptList: React.FC<TranscriptListProps> = ({ transcripts, onS
               >
                 {entry.speaker === 'provider' ? 'Healthcare Provider' : 'Patient'}
               </span>
+              {entry.detectedLang && (
+                <span
+                  title={`Spoken language auto-detected as ${getLangName(entry.detectedLang)}; speaker and direction were set automatically`}
+                  className="text-[10px] font-bold uppercase tracking-wider px-2.5 py-0.5 rounded-full border bg-amber-50 text-amber-700 border-amber-200"
+                >
+                  🔎 Auto-detected
+                </span>
+              )}
+              {entry.revisions && entry.revisions.length > 0 && (
+                <span
+                  title={`Edited ${entry.revisions.length} ${entry.revisions.length === 1 ? 'time' : 'times'}; see the revision history below`}
+                  className="text-[10px] font-bold uppercase tracking-wider px-2.5 py-0.5 rounded-full border bg-violet-50 text-violet-700 border-violet-200"
+                >
+                  ✏️ Edited
+                </span>
+              )}
+              {entry.teachBackFor && (
+                <span
+                  title="The patient's reply to a teach-back request"
+                  className="text-[10px] font-bold uppercase tracking-wider px-2.5 py-0.5 rounded-full border bg-violet-50 text-violet-700 border-violet-200"
+                >
+                  🔁 Teach-back reply
+                </span>
+              )}
             </div>
             <span className="text-xs font-semibold text-slate-400 uppercase tabular-nums">
               {entry.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}
@@ -109,58 +274,260 @@ export const TranscriptList: React.FC<TranscriptListProps> = ({ transcripts, onS
                 <span className="text-xs font-bold text-blue-700 bg-blue-50/80 backdrop-blur px-4 py-1.5 rounded-full uppercase tracking-tighter border border-blue-200/50">
                   Original • {getLangName(entry.sourceLang)}
                 </span>
+                <div className="flex gap-2">
+                  {entry.speaker === 'provider' && entry.status === 'translated' && (
+                    <button
+                      onClick={() => onToggleKeyInstruction(entry.id)}
+                      className={`f-btn text-xs ${entry.keyInstruction ? 'f-btn--primary' : 'f-btn--secondary'}`}
+                      aria-pressed={Boolean(entry.keyInstruction)}
+                      title="Key instruction: confirm the patient understood it with a teach-back"
+                    >
+                      ⭐ Key
+                    </button>
+                  )}
+                  {entry.status !== 'pending' && !isEditing(entry, 'originalText') && (
+                    <button
+                      onClick={() => startEditing(entry, 'originalText')}
+                      className="f-btn f-btn--secondary text-xs"
+                      title="Correct the recognized text and translate it again"
+                    >
+                      ✏️ Edit
+                    </button>
+                  )}
+                </div>
               </div>
-              <p className="text-slate-700 leading-relaxed font-medium text-sm sm:text-base break-words">{highlightMedicalTerms(entry.originalText)}</p>
+              <p className="text-slate-700 leading-relaxed font-medium text-sm sm:text-base break-words">{highlightMedicalTerms(entry.originalText, entry.sourceLang, entry.targetLang)}</p>
+              {isEditing(entry, 'originalText') && (
+                <EntryEditor label="Correct original text" submitLabel="Save & Retranslate" dir="auto" {...editorProps(entry)} />
+              )}
             </div>
 
-            {/* Translation Card */}
-              <div className="bg-gradient-to-br from-indigo-50/80 via-blue-50/60 to-cyan-50/50 backdrop-blur-sm p-4 sm:p-6 rounded-3xl shadow-md border-2 border-indigo-200/50 hover:shadow-lg hover:border-indigo-300/80 transition-all duration-300 transform hover:-translate-y-1 f-card f-card--accent">
-              <div className="flex justify-between items-start mb-4">
-                <div className="flex items-center gap-2">
+            {entry.status === 'failed' ? (
+              /* Failed Translation Card: never rendered as a translation and never playable */
+              <div role="alert" className="bg-red-50/80 backdrop-blur-sm p-4 sm:p-6 rounded-3xl shadow-md border-2 border-red-200/60">
+                <div className="flex justify-between items-start mb-4">
+                  <span className="text-xs font-bold text-red-700 bg-white/60 backdrop-blur px-4 py-1.5 rounded-full uppercase tracking-tighter border border-red-200/50">
+                    Translation Failed • {getLangName(entry.targetLang)}
+                  </span>
+                </div>
+                <p className="text-red-700 leading-relaxed font-semibold text-sm sm:text-base break-words">{entry.error?.message}</p>
+                <div className="mt-4 flex gap-2">
+                  <button onClick={() => onRetry(entry)} className="f-btn f-btn--primary text-xs">
+                    Retry
+                  </button>
+                  {!isEditing(entry, 'originalText') && (
+                    <button onClick={() => startEditing(entry, 'originalText')} className="f-btn f-btn--secondary text-xs">
+                      Edit Source &amp; Resend
+                    </button>
+                  )}
+                </div>
+              </div>
+            ) : entry.status === 'pending' ? (
+              /* Pending Translation Card: placeholder kept in spoken order until its translation lands */
+              entry.queuedOffline ? (
+                /* Queued offline: no phrasebook match, sent when the connection returns */
+                <div aria-live="polite" className="bg-amber-50/80 backdrop-blur-sm p-4 sm:p-6 rounded-3xl border-2 border-dashed border-amber-300/70 shadow-md f-card">
+                  <span className="text-xs font-bold text-amber-800 bg-white/60 backdrop-blur px-4 py-1.5 rounded-full uppercase tracking-tighter border border-amber-200/50">
+                    📴 Waiting for Connection • {getLangName(entry.targetLang)}
+                  </span>
+                  <p className="mt-4 text-amber-800 font-semibold text-sm">
+                    Not in the offline phrasebook. It will be translated when the connection returns.
+                  </p>
+                </div>
+              ) : entry.translatedText ? (
+                /* Streaming: partial text renders as it arrives and is finalized into a translation card */
+                <div aria-busy="true" className="bg-gradient-to-br from-indigo-50/80 via-blue-50/60 to-cyan-50/50 backdrop-blur-sm p-4 sm:p-6 rounded-3xl border-2 border-dashed border-indigo-200/70 shadow-md f-card">
                   <span className="text-xs font-bold text-indigo-700 bg-white/60 backdrop-blur px-4 py-1.5 rounded-full uppercase tracking-tighter border border-indigo-200/50">
-                    AI-Assisted Translation • {getLangName(entry.targetLang)}
+                    Translating • {getLangName(entry.targetLang)}
                   </span>
-                  <span className="relative inline-flex group">
-                    <span
-                      role="button"
-                      tabIndex={0}
-                      aria-describedby={`tip-${entry.id}`}
-                      className={`outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-indigo-300 text-[10px] font-bold uppercase tracking-wider px-3 py-1 rounded-full border ${
-                        getTranslationConfidence(entry.originalText, entry.translatedText) === 'high'
-                          ? 'bg-green-50 text-green-700 border-green-200'
-                          : 'bg-yellow-50 text-yellow-700 border-yellow-200'
-                      }`}
-                    >
-                      {getTranslationConfidence(entry.originalText, entry.translatedText) === 'high' ? 'High Confidence' : 'Medium Confidence'}
+                  <p className="mt-4 text-slate-600 leading-relaxed font-semibold text-sm sm:text-base break-words" dir="auto">
+                    {entry.translatedText}
+                    <span className="inline-block w-1.5 h-4 ml-1 align-middle bg-indigo-400 animate-pulse" aria-hidden="true"></span>
+                  </p>
+                </div>
+              ) : (
+              <div aria-live="polite" className="flex items-center space-x-4 bg-gradient-to-r from-indigo-50/80 to-blue-50/80 p-5 rounded-3xl border-2 border-indigo-200/60 shadow-lg shadow-indigo-100/40 animate-in fade-in backdrop-blur-sm f-card">
+                <div className="flex space-x-2">
+                  <div className="w-3 h-3 bg-gradient-to-r from-indigo-500 to-blue-500 rounded-full animate-bounce [animation-delay:-0.3s]"></div>
+                  <div className="w-3 h-3 bg-gradient-to-r from-indigo-500 to-blue-500 rounded-full animate-bounce [animation-delay:-0.15s]"></div>
+                  <div className="w-3 h-3 bg-gradient-to-r from-indigo-500 to-blue-500 rounded-full animate-bounce"></div>
+                </div>
+                <span className="text-xs font-bold text-indigo-700 uppercase tracking-widest">⚕️ AI Processing Medical Accuracy...</span>
+              </div>
+              )
+            ) : (
+              /* Translation Card */
+                <div className="bg-gradient-to-br from-indigo-50/80 via-blue-50/60 to-cyan-50/50 backdrop-blur-sm p-4 sm:p-6 rounded-3xl shadow-md border-2 border-indigo-200/50 hover:shadow-lg hover:border-indigo-300/80 transition-all duration-300 transform hover:-translate-y-1 f-card f-card--accent">
+                <div className="flex justify-between items-start mb-4">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-bold text-indigo-700 bg-white/60 backdrop-blur px-4 py-1.5 rounded-full uppercase tracking-tighter border border-indigo-200/50">
+                      {translationLabel(entry)} • {getLangName(entry.targetLang)}
                     </span>
-                    <div
-                      id={`tip-${entry.id}`}
-                      role="tooltip"
-                      className="absolute z-30 left-1/2 -translate-x-1/2 -top-2 -translate-y-full px-3 py-2 rounded-lg text-[11px] bg-slate-900 text-white shadow-lg opacity-0 pointer-events-none group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity duration-200 max-w-[80vw]"
+                    {entry.phrasebookId && (
+                      <span
+                        title="Vetted phrase from the offline phrasebook; not translated by the model"
+                        className="text-[10px] font-bold uppercase tracking-wider px-3 py-1 rounded-full border bg-amber-50 text-amber-800 border-amber-200"
+                      >
+                        📕 Phrase Bank
+                      </span>
+                    )}
+                    {!entry.manualTranslation && !entry.phrasebookId && (
+                      <span className="relative inline-flex group">
+                        <span
+                          role="button"
+                          tabIndex={0}
+                          aria-describedby={`tip-${entry.id}`}
+                          className={`outline-none focus-visible:ring-2 focus-visible:ring-offset-2 focus-visible:ring-indigo-300 text-[10px] font-bold uppercase tracking-wider px-3 py-1 rounded-full border ${
+                            CONFIDENCE_BADGES[entry.quality?.level ?? 'checking'].className
+                          }`}
+                        >
+                          {CONFIDENCE_BADGES[entry.quality?.level ?? 'checking'].label}
+                        </span>
+                        <div
+                          id={`tip-${entry.id}`}
+                          role="tooltip"
+                          className="absolute z-30 left-1/2 -translate-x-1/2 -top-2 -translate-y-full px-3 py-2 rounded-lg text-[11px] bg-slate-900 text-white shadow-lg opacity-0 pointer-events-none group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity duration-200 w-72 max-w-[80vw]"
+                        >
+                          {entry.quality ? (
+                            <ul className="space-y-1 text-left">
+                              {entry.quality.reasons.map(reason => <li key={reason}>{reason}</li>)}
+                              {entry.quality.backTranslation && (
+                                <li className="pt-1 border-t border-white/20 italic">Back-translation: “{entry.quality.backTranslation}”</li>
+                            )}
+                          </ul>
+                        ) : (
+                          'Verifying by translating back into the original language…'
+                        )}
+                        <div className="absolute top-full left-1/2 -translate-x-1/2 w-2 h-2 bg-slate-900 rotate-45"></div>
+                      </div>
+                    </span>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {playback.queuedIds.includes(entry.id) && (
+                      <span className="text-[10px] font-bold uppercase tracking-wider text-indigo-600">
+                        Queued #{playback.queuedIds.indexOf(entry.id) + 1}
+                      </span>
+                    )}
+                    {playback.currentId === entry.id && playback.status !== 'loading' && (
+                      <button
+                        onClick={playback.status === 'paused' ? onResumePlayback : onPausePlayback}
+                        className="f-btn f-btn--secondary text-xs"
+                        aria-label={playback.status === 'paused' ? 'Resume playback' : 'Pause playback'}
+                      >
+                        {playback.status === 'paused' ? '▶' : '❚❚'}
+                      </button>
+                    )}
+                    {playback.currentId === entry.id && (
+                      <button onClick={onStopPlayback} className="f-btn f-btn--secondary text-xs" aria-label="Stop playback">
+                        ■
+                      </button>
+                    )}
+                    <button
+                      onClick={() => onSpeak(entry.id)}
+                      disabled={Boolean(entry.integrity && !entry.integrity.ok && !entry.integrityConfirmedAt)}
+                        className={`f-btn ${
+                          playback.currentId === entry.id
+                            ? 'f-btn--primary f-btn--pulse-active'
+                            : 'f-btn--secondary'
+                        }`}
+                      aria-label={playback.currentId === entry.id ? 'Replay translation' : 'Play translation'}
+                      title={entry.integrity && !entry.integrity.ok && !entry.integrityConfirmedAt ? 'Playback blocked until a provider confirms the numbers' : playback.currentId === entry.id ? 'Replay from the start' : 'Play audio'}
                     >
-                      Based on translation completeness and structure.
-                      <div className="absolute top-full left-1/2 -translate-x-1/2 w-2 h-2 bg-slate-900 rotate-45"></div>
-                    </div>
-                  </span>
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+                        <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM14.657 2.929a1 1 0 011.414 0A9.972 9.972 0 0119 10a9.972 9.972 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7.971 7.971 0 0017 10c0-2.21-.894-4.208-2.343-5.657a1 1 0 010-1.414zm-2.829 2.828a1 1 0 011.415 0A5.983 5.983 0 0115 10a5.983 5.983 0 01-1.414 4.243 1 1 0 11-1.414-1.415A3.987 3.987 0 0013 10a3.987 3.987 0 00-1.172-2.828 1 1 0 010-1.415z" clipRule="evenodd" />
+                      </svg>
+                    </button>
+                  </div>
                 </div>
-                <button
-                  onClick={() => onSpeak(entry.translatedText, entry.targetLang, entry.id)}
-                    className={`f-btn ${
-                      isSpeakingId === entry.id
-                        ? 'f-btn--primary f-btn--pulse-active'
-                        : 'f-btn--secondary'
-                    }`}
-                  aria-label="Play translation"
-                  title="Play audio"
-                >
-                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
-                    <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.707.707L4.586 13H2a1 1 0 01-1-1V8a1 1 0 011-1h2.586l3.707-3.707a1 1 0 011.09-.217zM14.657 2.929a1 1 0 011.414 0A9.972 9.972 0 0119 10a9.972 9.972 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7.971 7.971 0 0017 10c0-2.21-.894-4.208-2.343-5.657a1 1 0 010-1.414zm-2.829 2.828a1 1 0 011.415 0A5.983 5.983 0 0115 10a5.983 5.983 0 01-1.414 4.243 1 1 0 11-1.414-1.415A3.987 3.987 0 0013 10a3.987 3.987 0 00-1.172-2.828 1 1 0 010-1.415z" clipRule="evenodd" />
-                  </svg>
-                </button>
+                <p className="text-slate-700 leading-relaxed font-semibold text-sm sm:text-base break-words">{highlightMedicalTerms(entry.translatedText, entry.targetLang, entry.sourceLang)}</p>
+                {isEditing(entry, 'translatedText') ? (
+                  <EntryEditor label="Corrected translation" submitLabel="Save Translation" dir="auto" {...editorProps(entry)} />
+                ) : (
+                  <button
+                    onClick={() => startEditing(entry, 'translatedText')}
+                    className="mt-3 f-btn f-btn--secondary text-xs"
+                    title="Bilingual staff: replace the translation with your own"
+                  >
+                    ✏️ Override Translation
+                  </button>
+                )}
+                {playback.currentId === entry.id && (
+                  <div
+                    role="progressbar"
+                    aria-label="Playback progress"
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-valuenow={Math.round(playback.progress * 100)}
+                    className="mt-3 h-1.5 rounded-full bg-indigo-100 overflow-hidden"
+                  >
+                    <div
+                      className={`h-full bg-gradient-to-r from-indigo-500 to-blue-500 transition-[width] duration-200 ${playback.status === 'loading' ? 'animate-pulse w-full opacity-40' : ''}`}
+                      style={playback.status === 'loading' ? undefined : { width: `${playback.progress * 100}%` }}
+                    ></div>
+                  </div>
+                )}
+                {entry.latency && (
+                  <p className="mt-2 text-[10px] font-semibold text-slate-400 uppercase tracking-wider" title="Time to first translated text / total translation time">
+                    ⏱ {formatMs(entry.latency.firstTextMs)} first text • {formatMs(entry.latency.totalMs)} total
+                  </p>
+                )}
+                {entry.integrity && !entry.integrity.ok && (
+                  <div role="alert" className="mt-4 p-3 rounded-2xl bg-red-50/90 border-2 border-red-200/70 text-xs text-red-700 font-semibold space-y-2">
+                    <p className="uppercase tracking-wider">⚠️ Number / dosage discrepancy</p>
+                    <ul className="list-disc pl-5 space-y-0.5 font-medium">
+                      {entry.integrity.discrepancies.map(d => <li key={d}>{d}</li>)}
+                    </ul>
+                    {entry.integrityConfirmedAt ? (
+                      <p className="text-red-600/80 font-medium">
+                        Confirmed by provider at {entry.integrityConfirmedAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </p>
+                    ) : (
+                      <button onClick={() => onConfirmIntegrity(entry.id)} className="f-btn f-btn--secondary text-xs">
+                        Provider: I verified it — allow playback
+                      </button>
+                    )}
+                  </div>
+                )}
+                {entry.glossaryViolations && entry.glossaryViolations.length > 0 && (
+                  <div role="status" className="mt-3 p-3 rounded-2xl bg-amber-50/90 border-2 border-amber-200/70 text-xs text-amber-800 font-semibold space-y-2">
+                    <p className="uppercase tracking-wider">📋 Facility glossary not followed</p>
+                    <ul className="list-disc pl-5 space-y-0.5 font-medium" dir="auto">
+                      {entry.glossaryViolations.map(v => <li key={v}>{v}</li>)}
+                    </ul>
+                    <button
+                      onClick={() => {
+                        if (confirmReplacingStaffTranslation(entry)) onRetry(entry);
+                      }}
+                      className="f-btn f-btn--secondary text-xs"
+                    >
+                      Retranslate
+                    </button>
+                  </div>
+                )}
               </div>
-              <p className="text-slate-700 leading-relaxed font-semibold text-sm sm:text-base break-words">{highlightMedicalTerms(entry.translatedText)}</p>
-            </div>
+            )}
           </div>
+          {entry.keyInstruction && entry.status === 'translated' && (
+            <TeachBackPanel entry={entry} onStart={onStartTeachBack} onCancel={onCancelTeachBack} />
+          )}
+          {entry.revisions && entry.revisions.length > 0 && (
+            <details className="px-2 text-xs text-slate-600">
+              <summary className="cursor-pointer font-bold uppercase tracking-wider text-slate-500">
+                Revision history ({entry.revisions.length})
+              </summary>
+              <ol className="mt-2 space-y-2">
+                {entry.revisions.map((revision, i) => (
+                  <li key={i} className="p-2 rounded-xl bg-white/70 border border-slate-200">
+                    <p className="font-semibold">
+                      {revision.editedAt.toLocaleString()} • {REVISION_LABELS[revision.reason]} by {revision.editedBy || 'unnamed'} ({EDITOR_ROLES[revision.role]})
+                    </p>
+                    <p className="mt-1 text-slate-500 break-words" dir="auto">Previous: “{revision.previousValue}”</p>
+                  </li>
+                ))}
+              </ol>
+            </details>
+          )}
         </div>
       ))}
     </div>
@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MIN_PASSPHRASE_LENGTH, VaultStatus } from '../hooks/useVault';
+
+interface UnlockDialogProps {
+  mode: Exclude<VaultStatus, 'unlocked'>;
+  onSetup: (passphrase: string) => Promise<void>;
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  onWipe: () => void;
+}
+
+const FOCUSABLE = 'button:not([disabled]), input:not([disabled])';
+
+// First run: medical disclaimer plus passphrase creation. Afterwards: unlock screen for the encrypted transcripts.
+export const UnlockDialog: React.FC<UnlockDialogProps> = ({ mode, onSetup, onUnlock, onWipe }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const dialogRef = useRef<HTMLDivElement | null>(null);
+  const firstInputRef = useRef<HTMLInputElement | null>(null);
+
+  // Focus the first field when the dialog appears for accessibility
+  useEffect(() => {
+    firstInputRef.current?.focus();
+    setPassphrase('');
+    setConfirmation('');
+    setError(null);
+  }, [mode]);
+
+  // Keep focus inside the dialog until the app is unlocked
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.preventDefault();
+      }
+      if (event.key !== 'Tab' || !dialogRef.current) return;
+      const focusable: HTMLElement[] = Array.from(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE));
+      if (focusable.length === 0) return;
+      const index = focusable.indexOf(document.activeElement as HTMLElement);
+      const next = event.shiftKey
+        ? (index <= 0 ? focusable.length - 1 : index - 1)
+        : (index + 1) % focusable.length;
+      event.preventDefault();
+      focusable[next].focus();
+    };
+
+    document.addEventListener('keydown', handleKeyDown, true);
+    return () => document.removeEventListener('keydown', handleKeyDown, true);
+  }, []);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+
+    if (mode === 'setup') {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        return;
+      }
+      if (passphrase !== confirmation) {
+        setError("Passphrases do not match.");
+        return;
+      }
+    }
+
+    setIsBusy(true);
+    try {
+      if (mode === 'setup') {
+        try { localStorage.setItem('medical_disclaimer_ack', 'true'); } catch {}
+        await onSetup(passphrase);
+      } else if (!(await onUnlock(passphrase))) {
+        setError("Incorrect passphrase.");
+        setPassphrase('');
+        firstInputRef.current?.focus();
+      }
+    } catch (err) {
+      console.error("Vault error:", err);
+      setError("Secure storage is unavailable in this browser.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleWipe = () => {
+    if (window.confirm('Permanently delete all stored sessions on this device? This cannot be undone.')) {
+      onWipe();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" aria-hidden="true"></div>
+      {/* Dialog */}
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="unlock-title"
+        aria-describedby="unlock-desc"
+        className="relative bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-md p-6"
+      >
+        <div className="flex items-start gap-3">
+          <div className="shrink-0 w-10 h-10 rounded-xl bg-yellow-100 text-yellow-700 flex items-center justify-center">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
+              <path fillRule="evenodd" d="M10 2a8 8 0 100 16 8 8 0 000-16zM9 9a1 1 0 012 0v4a1 1 0 11-2 0V9zm1-5a1.5 1.5 0 100 3 1.5 1.5 0 000-3z" clipRule="evenodd" />
+            </svg>
+          </div>
+          <div>
+            <h2 id="unlock-title" className="text-lg font-bold text-slate-900">
+              {mode === 'setup' ? 'Medical Safety Disclaimer' : 'Unlock HealthTrans'}
+            </h2>
+            <p id="unlock-desc" className="mt-2 text-slate-600">
+              {mode === 'setup'
+                ? 'This tool assists communication between patients and healthcare providers and does not replace professional medical judgment. Choose a passphrase or PIN for this device; saved transcripts are encrypted with it.'
+                : 'Saved transcripts on this device are encrypted. Enter the passphrase or PIN to continue.'}
+            </p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="mt-5 space-y-3">
+          <input
+            ref={firstInputRef}
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            aria-label="Passphrase or PIN"
+            placeholder="Passphrase or PIN"
+            autoComplete={mode === 'setup' ? 'new-password' : 'current-password'}
+            className="w-full px-4 py-2.5 rounded-xl border-2 border-slate-200 text-sm font-medium focus:outline-none focus:border-blue-300"
+          />
+          {mode === 'setup' && (
+            <input
+              type="password"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+              aria-label="Confirm passphrase or PIN"
+              placeholder="Confirm passphrase or PIN"
+              autoComplete="new-password"
+              className="w-full px-4 py-2.5 rounded-xl border-2 border-slate-200 text-sm font-medium focus:outline-none focus:border-blue-300"
+            />
+          )}
+          {error && <p role="alert" className="text-sm font-semibold text-red-600">{error}</p>}
+
+          <div className="pt-3 flex items-center justify-between gap-3">
+            {mode === 'locked' ? (
+              <button type="button" onClick={handleWipe} className="text-xs font-semibold text-red-600 hover:underline">
+                Forgot it? Wipe all data
+              </button>
+            ) : <span />}
+            <button type="submit" disabled={isBusy || !passphrase} className="f-btn f-btn--primary disabled:opacity-50">
+              {mode === 'setup' ? 'I Understand' : 'Unlock'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
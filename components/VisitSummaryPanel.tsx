@@ -0,0 +1,122 @@
+import React from 'react';
+import { TranscriptEntry } from '../types';
+import { sectionTitle, SUMMARY_SECTIONS, VisitSummary } from '../services/visitSummary';
+
+interface VisitSummaryPanelProps {
+  summary: VisitSummary | null;
+  isGenerating: boolean;
+  error: string | null;
+  transcripts: TranscriptEntry[];
+  onGenerate: () => void;
+  onCancel: () => void;
+  onPrint: (summary: VisitSummary) => void;
+  onClose: () => void;
+}
+
+// Review before printing: every item shows the utterances it came from and any failed number check
+export const VisitSummaryPanel: React.FC<VisitSummaryPanelProps> = ({
+  summary,
+  isGenerating,
+  error,
+  transcripts,
+  onGenerate,
+  onCancel,
+  onPrint,
+  onClose,
+}) => {
+  const sequenceOf = new Map(transcripts.map(e => [e.id, e.sequence]));
+  const withheld = summary?.items.filter(item => !item.integrity.ok).length ?? 0;
+  const printable = summary ? summary.items.length - withheld : 0;
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" aria-hidden="true" onClick={onClose}></div>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="visit-summary-title"
+        className="relative bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-2xl p-6 max-h-[85vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 id="visit-summary-title" className="text-lg font-bold text-slate-900">Visit Summary</h2>
+          <button onClick={onClose} className="f-btn f-btn--secondary text-xs" aria-label="Close visit summary">
+            Close
+          </button>
+        </div>
+        <p className="text-xs text-slate-600 font-medium mb-4">
+          Chief complaint, medications, instructions and follow-up in both languages, for a printed patient handout.
+          {summary?.method === 'transcript' && ' Assembled from the interpreted utterances because no summarization model is available.'}
+        </p>
+
+        {error && <p className="text-xs text-red-600 font-semibold mb-3" role="alert">{error}</p>}
+
+        {isGenerating && (
+          <p className="text-sm text-slate-600 font-medium animate-pulse mb-3">Summarizing the consultation…</p>
+        )}
+
+        {summary && !isGenerating && (
+          <div className="overflow-y-auto custom-scrollbar space-y-4 flex-1">
+            {summary.items.length === 0 && (
+              <p className="text-sm text-slate-500 font-medium">Nothing to summarize yet.</p>
+            )}
+            {SUMMARY_SECTIONS.map(section => {
+              const items = summary.items.filter(item => item.section === section);
+              if (!items.length) return null;
+              return (
+                <section key={section}>
+                  <h3 className="text-xs font-bold uppercase tracking-wider text-slate-500 mb-2">
+                    {sectionTitle('en-US', section)}
+                  </h3>
+                  <ul className="space-y-2">
+                    {items.map((item, index) => (
+                      <li
+                        key={index}
+                        className={`p-3 rounded-2xl border-2 text-sm space-y-1 ${
+                          item.integrity.ok ? 'border-slate-100' : 'border-red-200 bg-red-50'
+                        }`}
+                      >
+                        <p className="font-medium text-slate-800 break-words" dir="auto">{item.text}</p>
+                        <p className="text-slate-600 break-words" dir="auto">{item.translatedText || '—'}</p>
+                        <p className="text-[10px] font-bold uppercase tracking-wider text-slate-400">
+                          From {item.entryIds.map(id => `#${sequenceOf.get(id) ?? '?'}`).join(', ') || 'no utterance'}
+                        </p>
+                        {!item.integrity.ok && (
+                          <ul className="list-disc pl-5 text-xs text-red-700 font-semibold">
+                            {item.integrity.discrepancies.map(d => <li key={d}>{d}</li>)}
+                          </ul>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              );
+            })}
+          </div>
+        )}
+
+        {withheld > 0 && !isGenerating && (
+          <p className="mt-3 text-xs text-red-700 font-semibold">
+            {withheld} {withheld === 1 ? 'item failed its' : 'items failed their'} number check and will be left off the handout.
+          </p>
+        )}
+
+        <div className="mt-4 flex justify-end gap-2">
+          {isGenerating ? (
+            <button onClick={onCancel} className="f-btn f-btn--secondary text-xs">Cancel</button>
+          ) : (
+            <button onClick={onGenerate} disabled={transcripts.length === 0} className="f-btn f-btn--secondary text-xs">
+              {summary ? 'Regenerate' : 'Generate Summary'}
+            </button>
+          )}
+          <button
+            onClick={() => summary && onPrint(summary)}
+            disabled={!summary || isGenerating || printable === 0}
+            className="f-btn f-btn--primary text-xs"
+          >
+            🖨️ Print Handout
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
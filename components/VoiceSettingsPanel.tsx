@@ -0,0 +1,125 @@
+import React from 'react';
+import { LANGUAGES } from '../types';
+import { browserVoicesFor, GEMINI_VOICES, LanguageVoice, PITCH_RANGE, VoiceSettings } from '../services/voiceSettings';
+import { PLAYBACK_RATES } from '../hooks/useAudioPlayback';
+
+interface VoiceSettingsPanelProps {
+  settings: VoiceSettings;
+  browserVoices: SpeechSynthesisVoice[];
+  rate: number;
+  onRateChange: (rate: number) => void;
+  onLanguageVoiceChange: (lang: string, voice: Partial<LanguageVoice>) => void;
+  onPitchChange: (pitch: number) => void;
+  onStyleChange: (style: string) => void;
+  onPreview: (lang: string, browserOnly: boolean) => void;
+  onReset: () => void;
+  onClose: () => void;
+}
+
+export const VoiceSettingsPanel: React.FC<VoiceSettingsPanelProps> = ({
+  settings,
+  browserVoices,
+  rate,
+  onRateChange,
+  onLanguageVoiceChange,
+  onPitchChange,
+  onStyleChange,
+  onPreview,
+  onReset,
+  onClose,
+}) => {
+  const selectClass = 'bg-slate-50 border border-slate-200 rounded-lg px-2 py-1.5 text-xs font-bold text-slate-700 min-w-0';
+
+  return (
+    <div className="fixed inset-0 z-40 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" aria-hidden="true" onClick={onClose}></div>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="voice-settings-title"
+        className="relative bg-white rounded-2xl shadow-xl border border-slate-200 w-full max-w-2xl p-6 max-h-[85vh] flex flex-col"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 id="voice-settings-title" className="text-lg font-bold text-slate-900">Voice Settings</h2>
+          <button onClick={onClose} className="f-btn f-btn--secondary text-xs" aria-label="Close voice settings">
+            Close
+          </button>
+        </div>
+        <p className="text-xs text-slate-600 font-medium mb-4">
+          Gemini voices are used first. The browser voice is the fallback when Gemini speech is unavailable.
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 p-3 rounded-2xl bg-slate-50 border border-slate-100 mb-4">
+          <label className="flex flex-col gap-1 text-xs font-bold text-slate-600">
+            Speed
+            <select value={rate} onChange={(e) => onRateChange(Number(e.target.value))} className={selectClass}>
+              {PLAYBACK_RATES.map(r => <option key={r} value={r}>{r}×</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-bold text-slate-600">
+            Pitch {settings.pitch.toFixed(1)} <span className="font-medium text-slate-500">(browser voices only)</span>
+            <input
+              type="range"
+              min={PITCH_RANGE.min}
+              max={PITCH_RANGE.max}
+              step={PITCH_RANGE.step}
+              value={settings.pitch}
+              onChange={(e) => onPitchChange(Number(e.target.value))}
+              className="accent-blue-600"
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs font-bold text-slate-600">
+            Speaking style
+            <input
+              value={settings.style}
+              onChange={(e) => onStyleChange(e.target.value)}
+              placeholder="e.g. Say slowly and warmly:"
+              className="px-2 py-1.5 rounded-lg border border-slate-200 text-xs font-medium focus:outline-none focus:border-blue-300"
+            />
+          </label>
+        </div>
+
+        <ul className="overflow-y-auto custom-scrollbar space-y-2 flex-1">
+          {LANGUAGES.map(lang => {
+            const voice = settings.voices[lang.code];
+            const candidates = browserVoicesFor(browserVoices, lang.code);
+            return (
+              <li key={lang.code} className="p-3 rounded-2xl border-2 border-slate-100 flex flex-wrap items-center gap-2">
+                <span className="text-sm font-bold text-slate-800 w-32 shrink-0">{lang.flag} {lang.name}</span>
+                <select
+                  value={voice?.gemini}
+                  onChange={(e) => onLanguageVoiceChange(lang.code, { gemini: e.target.value })}
+                  aria-label={`Gemini voice for ${lang.name}`}
+                  className={selectClass}
+                >
+                  {GEMINI_VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+                </select>
+                <select
+                  value={voice?.browserVoiceURI ?? ''}
+                  onChange={(e) => onLanguageVoiceChange(lang.code, { browserVoiceURI: e.target.value || undefined })}
+                  aria-label={`Browser voice for ${lang.name}`}
+                  className={`${selectClass} flex-1`}
+                >
+                  <option value="">{candidates.length ? 'Browser default' : 'No browser voice installed'}</option>
+                  {candidates.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>)}
+                </select>
+                <div className="flex gap-2 shrink-0">
+                  <button onClick={() => onPreview(lang.code, false)} className="f-btn f-btn--secondary text-xs" title="Preview Gemini voice">
+                    ▶ Gemini
+                  </button>
+                  <button onClick={() => onPreview(lang.code, true)} className="f-btn f-btn--secondary text-xs" title="Preview browser voice">
+                    ▶ Browser
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="mt-4 flex justify-end">
+          <button onClick={onReset} className="f-btn f-btn--secondary text-xs">Restore Defaults</button>
+        </div>
+      </div>
+    </div>
+  );
+};
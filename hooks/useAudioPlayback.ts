@@ -0,0 +1,318 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SpeechChunk, streamMedicalSpeech } from '../services/translationService';
+import { createAudioContext, decodePcmAudio, pcmToAudioBuffer } from '../services/audioUtils';
+import { decodeCachedSpeech, getCachedSpeech, putCachedSpeech, speechCacheKey } from '../services/speechCache';
+
+export type PlaybackStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface PlaybackItem {
+  entryId: string;
+  text: string;
+  lang: string;
+  voice: string;
+  style?: string;
+  // Used only when speaking with the browser voice
+  browserVoiceURI?: string;
+  pitch?: number;
+  // Skip Gemini, e.g. to preview the browser voice
+  browserOnly?: boolean;
+}
+
+export interface PlaybackState {
+  status: PlaybackStatus;
+  currentId: string | null;
+  // 0–1 through the clip being played; estimated while audio is still streaming in
+  progress: number;
+  queuedIds: string[];
+  rate: number;
+}
+
+export const PLAYBACK_RATES = [0.75, 0.9, 1, 1.25];
+const RATE_KEY = 'playback_rate';
+const PROGRESS_INTERVAL_MS = 200;
+// Small lead so the first chunk is not scheduled in the past
+const SCHEDULE_LEAD_S = 0.05;
+
+interface PlaybackJob {
+  item: PlaybackItem;
+  controller: AbortController;
+  rate: number;
+  engine: 'gemini' | 'browser';
+  sources: Set<AudioBufferSourceNode>;
+  // Context time when the first chunk starts and when the last scheduled chunk ends
+  startedAt: number | null;
+  nextStart: number;
+  // Seconds of audio received so far, at normal speed
+  receivedSeconds: number;
+  streamDone: boolean;
+  // Odd byte left over from a PCM chunk that split a sample
+  carry: Uint8Array | null;
+  // Keeps decoding of complete clips in arrival order
+  chain: Promise<void>;
+}
+
+const readRate = () => {
+  const stored = Number(localStorage.getItem(RATE_KEY));
+  return PLAYBACK_RATES.includes(stored) ? stored : 1;
+};
+
+// Join a leftover byte with the next chunk and hold back a new one if the total is odd
+const alignPcm = (job: PlaybackJob, data: ArrayBuffer): ArrayBuffer => {
+  let bytes = new Uint8Array(data);
+  if (job.carry) {
+    const joined = new Uint8Array(job.carry.length + bytes.length);
+    joined.set(job.carry);
+    joined.set(bytes, job.carry.length);
+    bytes = joined;
+  }
+  job.carry = bytes.length % 2 ? bytes.slice(-1) : null;
+  return bytes.slice(0, bytes.length - (bytes.length % 2)).buffer;
+};
+
+// A streamed clip is cached as one PCM buffer; a complete clip is cached as delivered
+const joinChunks = (chunks: SpeechChunk[]) => {
+  if (!chunks.length) return null;
+  if (!chunks[0].raw) return { data: chunks[0].data, raw: false };
+  const joined = new Uint8Array(chunks.reduce((sum, c) => sum + c.data.byteLength, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    joined.set(new Uint8Array(chunk.data), offset);
+    offset += chunk.data.byteLength;
+  }
+  return { data: joined.buffer, raw: true };
+};
+
+export const useAudioPlayback = () => {
+  const [state, setState] = useState<PlaybackState>(() => ({
+    status: 'idle',
+    currentId: null,
+    progress: 0,
+    queuedIds: [],
+    rate: readRate(),
+  }));
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const jobRef = useRef<PlaybackJob | null>(null);
+  const queueRef = useRef<PlaybackItem[]>([]);
+  const rateRef = useRef(state.rate);
+
+  const getAudioContext = () => {
+    if (!audioContextRef.current) {
+      audioContextRef.current = createAudioContext({ sampleRate: 24000 });
+    }
+    return audioContextRef.current;
+  };
+
+  const syncQueue = () => setState(s => ({ ...s, queuedIds: queueRef.current.map(item => item.entryId) }));
+
+  // Silence the job without touching the queue
+  const halt = (job: PlaybackJob | null) => {
+    if (!job) return;
+    job.controller.abort();
+    job.sources.forEach(source => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Never started
+      }
+    });
+    job.sources.clear();
+    if (job.engine === 'browser') window.speechSynthesis.cancel();
+  };
+
+  // The helpers below only touch refs and state setters, so the memoized controls can call them safely
+  const startNext = () => {
+    const next = queueRef.current.shift();
+    syncQueue();
+    if (next) {
+      play(next);
+    } else {
+      setState(s => ({ ...s, status: 'idle', currentId: null, progress: 0 }));
+    }
+  };
+
+  const finish = (job: PlaybackJob) => {
+    if (jobRef.current !== job) return;
+    jobRef.current = null;
+    startNext();
+  };
+
+  const schedule = (job: PlaybackJob, buffer: AudioBuffer) => {
+    if (jobRef.current !== job || job.controller.signal.aborted) return;
+    const ctx = getAudioContext();
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = job.rate;
+    source.connect(ctx.destination);
+
+    const startAt = Math.max(ctx.currentTime + SCHEDULE_LEAD_S, job.nextStart);
+    source.start(startAt);
+    job.sources.add(source);
+    job.nextStart = startAt + buffer.duration / job.rate;
+    job.receivedSeconds += buffer.duration;
+    if (job.startedAt === null) {
+      job.startedAt = startAt;
+      setState(s => (s.currentId === job.item.entryId ? { ...s, status: 'playing' } : s));
+    }
+
+    source.onended = () => {
+      job.sources.delete(source);
+      if (job.streamDone && job.sources.size === 0) finish(job);
+    };
+  };
+
+  const speakWithBrowser = (job: PlaybackJob) => {
+    job.engine = 'browser';
+    const utterance = new SpeechSynthesisUtterance(job.item.text);
+    utterance.lang = job.item.lang;
+    utterance.rate = job.rate;
+    utterance.pitch = job.item.pitch ?? 1;
+    const voice = window.speechSynthesis.getVoices().find(v => v.voiceURI === job.item.browserVoiceURI);
+    if (voice) utterance.voice = voice;
+    utterance.onstart = () => setState(s => (s.currentId === job.item.entryId ? { ...s, status: 'playing' } : s));
+    utterance.onboundary = (e) => {
+      if (jobRef.current !== job) return;
+      setState(s => ({ ...s, progress: Math.min(1, e.charIndex / Math.max(job.item.text.length, 1)) }));
+    };
+    utterance.onend = () => finish(job);
+    utterance.onerror = () => finish(job);
+    window.speechSynthesis.speak(utterance);
+  };
+
+  const play = async (item: PlaybackItem) => {
+    halt(jobRef.current);
+    const job: PlaybackJob = {
+      item,
+      controller: new AbortController(),
+      rate: rateRef.current,
+      engine: 'gemini',
+      sources: new Set(),
+      startedAt: null,
+      nextStart: 0,
+      receivedSeconds: 0,
+      streamDone: false,
+      carry: null,
+      chain: Promise.resolve(),
+    };
+    jobRef.current = job;
+    setState(s => ({ ...s, status: 'loading', currentId: item.entryId, progress: 0 }));
+
+    if (item.browserOnly) {
+      speakWithBrowser(job);
+      return;
+    }
+
+    try {
+      const ctx = getAudioContext();
+      if (ctx.state === 'suspended') await ctx.resume();
+
+      // Replays come from the cache; a new clip is cached only once it streamed completely
+      const cacheKey = await speechCacheKey(item.text, item.voice, item.lang, item.style);
+      const cached = await getCachedSpeech(cacheKey);
+      if (jobRef.current !== job) return;
+
+      if (cached) {
+        schedule(job, await decodeCachedSpeech(cached, ctx));
+      } else {
+        const received: SpeechChunk[] = [];
+        // We use Gemini TTS for high-quality, clear medical pronunciation
+        await streamMedicalSpeech(item.text, item.voice, (chunk: SpeechChunk) => {
+          received.push(chunk);
+          if (chunk.raw) {
+            schedule(job, pcmToAudioBuffer(alignPcm(job, chunk.data), ctx));
+          } else {
+            job.chain = job.chain.then(async () => schedule(job, await decodePcmAudio(chunk.data, ctx)));
+          }
+        }, { signal: job.controller.signal, style: item.style });
+        await job.chain;
+        const clip = joinChunks(received);
+        if (clip) putCachedSpeech(cacheKey, item.entryId, clip);
+      }
+    } catch (err) {
+      if (job.controller.signal.aborted || jobRef.current !== job) return;
+      if (job.startedAt === null) {
+        console.error("Gemini TTS failed, falling back to browser TTS", err);
+        speakWithBrowser(job);
+        return;
+      }
+      // Part of the clip already played; end it where the stream broke off
+      console.error("Gemini TTS stream interrupted", err);
+    }
+
+    if (jobRef.current !== job || job.engine === 'browser') return;
+    job.streamDone = true;
+    if (job.sources.size === 0) finish(job);
+  };
+
+  // Play now, interrupting the current clip; the rest of the queue continues afterwards
+  const speak = useCallback((item: PlaybackItem) => {
+    queueRef.current = queueRef.current.filter(queued => queued.entryId !== item.entryId);
+    syncQueue();
+    play(item);
+  }, []);
+
+  // Play after everything already queued, e.g. for auto-speak
+  const enqueue = useCallback((item: PlaybackItem) => {
+    if (!jobRef.current) {
+      play(item);
+      return;
+    }
+    if (jobRef.current.item.entryId === item.entryId || queueRef.current.some(q => q.entryId === item.entryId)) return;
+    queueRef.current.push(item);
+    syncQueue();
+  }, []);
+
+  const pause = useCallback(() => {
+    const job = jobRef.current;
+    if (!job) return;
+    if (job.engine === 'browser') window.speechSynthesis.pause();
+    else audioContextRef.current?.suspend();
+    setState(s => ({ ...s, status: 'paused' }));
+  }, []);
+
+  const resume = useCallback(() => {
+    const job = jobRef.current;
+    if (!job) return;
+    if (job.engine === 'browser') window.speechSynthesis.resume();
+    else audioContextRef.current?.resume();
+    setState(s => ({ ...s, status: job.startedAt === null && job.engine === 'gemini' ? 'loading' : 'playing' }));
+  }, []);
+
+  // Stop the current clip and drop everything queued
+  const stop = useCallback(() => {
+    queueRef.current = [];
+    halt(jobRef.current);
+    jobRef.current = null;
+    audioContextRef.current?.resume();
+    setState(s => ({ ...s, status: 'idle', currentId: null, progress: 0, queuedIds: [] }));
+  }, []);
+
+  // Applies from the next clip; chunks already scheduled keep their timing
+  const setRate = useCallback((rate: number) => {
+    rateRef.current = rate;
+    localStorage.setItem(RATE_KEY, String(rate));
+    setState(s => ({ ...s, rate }));
+  }, []);
+
+  // Progress of streamed audio: time played against audio received so far
+  useEffect(() => {
+    if (state.status !== 'playing') return;
+    const timer = setInterval(() => {
+      const job = jobRef.current;
+      const ctx = audioContextRef.current;
+      if (!job || job.engine !== 'gemini' || job.startedAt === null || !ctx) return;
+      const played = Math.max(0, ctx.currentTime - job.startedAt) * job.rate;
+      const progress = job.receivedSeconds ? Math.min(1, played / job.receivedSeconds) : 0;
+      setState(s => ({ ...s, progress }));
+    }, PROGRESS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [state.status]);
+
+  useEffect(() => () => {
+    queueRef.current = [];
+    halt(jobRef.current);
+    jobRef.current = null;
+  }, []);
+
+  return { playback: state, speak, enqueue, pause, resume, stop, setRate };
+};
@@ -0,0 +1,26 @@
+import { useCallback, useState } from 'react';
+import { EditorIdentity } from '../types';
+
+const EDITOR_KEY = 'editor_identity';
+
+const readEditor = (): EditorIdentity => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(EDITOR_KEY) || 'null');
+    if (stored && typeof stored.name === 'string' && typeof stored.role === 'string') return stored;
+  } catch {
+    // Fall through to the default
+  }
+  return { name: '', role: 'provider' };
+};
+
+// Remembered per device so repeated corrections do not ask again
+export const useEditorIdentity = () => {
+  const [editor, setEditorState] = useState<EditorIdentity>(readEditor);
+
+  const setEditor = useCallback((next: EditorIdentity) => {
+    localStorage.setItem(EDITOR_KEY, JSON.stringify(next));
+    setEditorState(next);
+  }, []);
+
+  return { editor, setEditor };
+};
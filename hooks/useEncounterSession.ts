@@ -0,0 +1,187 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { EncounterSession, TranscriptEntry } from '../types';
+import { deleteSession, getSession, listSessions, purgeExpiredSessions, saveSession } from '../services/sessionStore';
+
+export const RETENTION_OPTIONS = [1, 7, 30, 90];
+const DEFAULT_RETENTION_DAYS = 7;
+const RETENTION_KEY = 'session_retention_days';
+const SAVE_DELAY_MS = 500;
+
+type SessionMeta = Pick<EncounterSession, 'id' | 'label' | 'startedAt'>;
+
+interface UseEncounterSessionProps {
+  transcripts: TranscriptEntry[];
+  sourceLang: string;
+  targetLang: string;
+  contextEnabled: boolean;
+  // Stored sessions are encrypted; nothing is read or written while the vault is locked
+  isUnlocked: boolean;
+  // Called with the session to load, or null to start from an empty transcript
+  onRestore: (session: EncounterSession | null) => void;
+}
+
+const readRetentionDays = () => {
+  try {
+    const stored = Number(localStorage.getItem(RETENTION_KEY));
+    return RETENTION_OPTIONS.includes(stored) ? stored : DEFAULT_RETENTION_DAYS;
+  } catch {
+    return DEFAULT_RETENTION_DAYS;
+  }
+};
+
+// Entries still in flight when a session was saved can never complete; surface them as retryable failures.
+// Entries queued while offline stay queued and are sent once the app is online.
+const settleInterrupted = (transcripts: TranscriptEntry[]): TranscriptEntry[] =>
+  transcripts.map(e =>
+    e.status === 'pending' && !e.queuedOffline
+      ? { ...e, translatedText: '', status: 'failed', error: { kind: 'cancelled', message: 'Translation was interrupted before it completed.' } }
+      : e
+  );
+
+export const useEncounterSession = ({ transcripts, sourceLang, targetLang, contextEnabled, isUnlocked, onRestore }: UseEncounterSessionProps) => {
+  const [meta, setMeta] = useState<SessionMeta | null>(null);
+  const [sessions, setSessions] = useState<EncounterSession[]>([]);
+  const [retentionDays, setRetentionDaysState] = useState(readRetentionDays);
+  const latestRef = useRef<EncounterSession | null>(null);
+
+  const refreshSessions = useCallback(async () => {
+    if (!isUnlocked) {
+      setSessions([]);
+      return;
+    }
+    try {
+      setSessions(await listSessions());
+    } catch (err) {
+      console.error("Could not list sessions", err);
+    }
+  }, [isUnlocked]);
+
+  // Apply the retention policy on load and whenever it changes
+  useEffect(() => {
+    purgeExpiredSessions(retentionDays)
+      .catch(err => console.error("Session purge failed", err))
+      .finally(refreshSessions);
+  }, [retentionDays, refreshSessions]);
+
+  // The first utterance opens a session; nothing is stored for an empty consultation
+  useEffect(() => {
+    if (!meta && transcripts.length > 0) {
+      setMeta({ id: crypto.randomUUID(), startedAt: transcripts[0].timestamp });
+    }
+  }, [meta, transcripts]);
+
+  // Debounced autosave of the active session
+  useEffect(() => {
+    if (!meta || !isUnlocked) return;
+    const session: EncounterSession = {
+      ...meta,
+      updatedAt: new Date(),
+      sourceLang,
+      targetLang,
+      contextEnabled,
+      transcripts,
+    };
+    latestRef.current = session;
+    const timer = setTimeout(() => {
+      saveSession(session)
+        .then(refreshSessions)
+        .catch(err => console.error("Session save failed", err));
+    }, SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [meta, transcripts, sourceLang, targetLang, contextEnabled, isUnlocked, refreshSessions]);
+
+  // Close out the session being replaced; state is switched synchronously by the caller first
+  const archive = useCallback(async (session: EncounterSession | null) => {
+    if (session && session.transcripts.length > 0) {
+      await saveSession({ ...session, endedAt: new Date(), updatedAt: new Date() });
+    }
+  }, []);
+
+  const startNewSession = useCallback(async () => {
+    const previous = latestRef.current;
+    latestRef.current = null;
+    setMeta(null);
+    onRestore(null);
+    await archive(previous);
+    await refreshSessions();
+  }, [archive, onRestore, refreshSessions]);
+
+  const resumeSession = useCallback(async (session: EncounterSession) => {
+    if (session.id === meta?.id) return;
+    const previous = latestRef.current;
+    const resumed = { ...session, endedAt: undefined, transcripts: settleInterrupted(session.transcripts) };
+    setMeta({ id: resumed.id, label: resumed.label, startedAt: resumed.startedAt });
+    onRestore(resumed);
+    await archive(previous);
+    await refreshSessions();
+  }, [meta, archive, onRestore, refreshSessions]);
+
+  const renameSession = useCallback(async (session: EncounterSession, label: string) => {
+    const trimmed = label.trim() || undefined;
+    if (session.id === meta?.id) {
+      // The autosave picks up the new label together with the live transcript
+      setMeta(m => (m ? { ...m, label: trimmed } : m));
+      return;
+    }
+    await saveSession({ ...session, label: trimmed });
+    await refreshSessions();
+  }, [meta, refreshSessions]);
+
+  const removeSession = useCallback(async (session: EncounterSession) => {
+    if (session.id === meta?.id) {
+      latestRef.current = null;
+      setMeta(null);
+      onRestore(null);
+    }
+    await deleteSession(session.id);
+    await refreshSessions();
+  }, [meta, onRestore, refreshSessions]);
+
+  // Save immediately and unload the active session before the vault locks; returns its ID for resuming
+  const suspend = useCallback(async (): Promise<string | null> => {
+    const current = latestRef.current;
+    latestRef.current = null;
+    setMeta(null);
+    onRestore(null);
+    if (!current) return null;
+    if (current.transcripts.length > 0) await saveSession(current);
+    return current.id;
+  }, [onRestore]);
+
+  const resumeById = useCallback(async (id: string) => {
+    const session = await getSession(id);
+    if (session) await resumeSession(session);
+  }, [resumeSession]);
+
+  // Forget the active session without saving it (used by the panic wipe)
+  const discard = useCallback(() => {
+    latestRef.current = null;
+    setMeta(null);
+    onRestore(null);
+  }, [onRestore]);
+
+  // Latest state of the active session, e.g. for export
+  const snapshot = useCallback((): EncounterSession | null => latestRef.current, []);
+
+  const setRetentionDays = useCallback((days: number) => {
+    try { localStorage.setItem(RETENTION_KEY, String(days)); } catch {}
+    setRetentionDaysState(days);
+  }, []);
+
+  return {
+    currentSessionId: meta?.id ?? null,
+    currentLabel: meta?.label,
+    sessions,
+    refreshSessions,
+    startNewSession,
+    resumeSession,
+    resumeById,
+    suspend,
+    discard,
+    snapshot,
+    renameSession,
+    removeSession,
+    retentionDays,
+    setRetentionDays,
+  };
+};
@@ -0,0 +1,46 @@
+import { useCallback, useState } from 'react';
+import { GlossaryEntry } from '../types';
+import { parseGlossaryCsv } from '../services/glossary';
+
+const GLOSSARY_KEY = 'facility_glossary';
+
+// Facility terminology policy, not patient data, so it is kept unencrypted
+const readGlossary = (): GlossaryEntry[] => {
+  try {
+    const raw = localStorage.getItem(GLOSSARY_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const useGlossary = () => {
+  const [glossary, setGlossary] = useState<GlossaryEntry[]>(readGlossary);
+
+  const update = useCallback((change: (prev: GlossaryEntry[]) => GlossaryEntry[]) => {
+    setGlossary(prev => {
+      const next = change(prev);
+      localStorage.setItem(GLOSSARY_KEY, JSON.stringify(next));
+      return next;
+    });
+  }, []);
+
+  const saveEntry = useCallback((entry: GlossaryEntry) => {
+    update(prev => (prev.some(e => e.id === entry.id) ? prev.map(e => (e.id === entry.id ? entry : e)) : [...prev, entry]));
+  }, [update]);
+
+  const removeEntry = useCallback((id: string) => {
+    update(prev => prev.filter(e => e.id !== id));
+  }, [update]);
+
+  // Imported rows replace existing rows for the same term and direction; rejects on malformed CSV
+  const importCsv = useCallback(async (file: File) => {
+    const imported = parseGlossaryCsv(await file.text());
+    const keyOf = (e: GlossaryEntry) => `${e.sourceLang}|${e.targetLang}|${e.sourceTerm.toLowerCase()}`;
+    const importedKeys = new Set(imported.map(keyOf));
+    update(prev => [...prev.filter(e => !importedKeys.has(keyOf(e))), ...imported]);
+    return imported.length;
+  }, [update]);
+
+  return { glossary, saveEntry, removeEntry, importCsv };
+};
@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+
+// navigator.onLine only knows whether there is a network, not whether the API is reachable;
+// failed requests fall back to the phrasebook separately
+export const useOnlineStatus = () => {
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    const update = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  return isOnline;
+};
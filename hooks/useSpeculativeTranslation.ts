@@ -0,0 +1,131 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { SpeculativeTranslation, TranslationResult } from '../types';
+
+interface SpeculationRoute {
+  sourceLang: string;
+  targetLang: string;
+}
+
+interface Speculation extends SpeculationRoute, SpeculativeTranslation {
+  key: string;
+  wordCount: number;
+}
+
+export interface SpeculativePreview {
+  sourceText: string;
+  translatedText: string;
+}
+
+interface UseSpeculativeTranslationProps {
+  enabled: boolean;
+  translate: (text: string, sourceLang: string, targetLang: string, signal: AbortSignal) => Promise<TranslationResult>;
+  // Quiet time after the last interim change before the whole interim text is translated
+  debounceMs?: number;
+  // New stable words needed before a still-changing utterance is translated again
+  minNewWords?: number;
+}
+
+// Final results often differ from the last interim only in case and sentence punctuation.
+// Separators followed by a digit are kept so "2.5" and "25" never compare equal.
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[.,](?!\d)|[!?¿¡;:。，、？！]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const words = (text: string) => text.trim().split(/\s+/).filter(Boolean);
+
+// Words shared by consecutive interim results, minus the last one which is usually still being recognized
+const stablePrefix = (previous: string, current: string) => {
+  const before = words(previous);
+  const now = words(current);
+  let shared = 0;
+  while (shared < before.length && shared < now.length - 1 && before[shared] === now[shared]) shared++;
+  return now.slice(0, shared).join(' ');
+};
+
+export const useSpeculativeTranslation = ({
+  enabled,
+  translate,
+  debounceMs = 350,
+  minNewWords = 3,
+}: UseSpeculativeTranslationProps) => {
+  const [preview, setPreview] = useState<SpeculativePreview | null>(null);
+  const currentRef = useRef<Speculation | null>(null);
+  const previousInterimRef = useRef('');
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clearTimer = () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+  };
+
+  const speculate = useCallback((text: string, route: SpeculationRoute) => {
+    const key = normalize(text);
+    const current = currentRef.current;
+    if (!key || (current && current.key === key && current.sourceLang === route.sourceLang && current.targetLang === route.targetLang)) return;
+
+    current?.controller.abort();
+    const controller = new AbortController();
+    const speculation: Speculation = {
+      ...route,
+      key,
+      wordCount: words(text).length,
+      controller,
+      promise: translate(text, route.sourceLang, route.targetLang, controller.signal),
+    };
+    currentRef.current = speculation;
+
+    speculation.promise.then(result => {
+      if (currentRef.current !== speculation || result.status !== 'success') return;
+      setPreview({ sourceText: text, translatedText: result.text });
+    });
+  }, [translate]);
+
+  const reset = useCallback(() => {
+    clearTimer();
+    currentRef.current?.controller.abort();
+    currentRef.current = null;
+    previousInterimRef.current = '';
+    setPreview(null);
+  }, []);
+
+  // Feed every interim result; translation starts once a prefix is stable or speech pauses
+  const update = useCallback((interimText: string, route: SpeculationRoute) => {
+    if (!enabled) return;
+    const stable = stablePrefix(previousInterimRef.current, interimText);
+    previousInterimRef.current = interimText;
+
+    const translatedWords = currentRef.current?.wordCount ?? 0;
+    if (words(stable).length >= translatedWords + minNewWords) {
+      speculate(stable, route);
+    }
+
+    clearTimer();
+    timerRef.current = setTimeout(() => speculate(interimText, route), debounceMs);
+  }, [enabled, speculate, debounceMs, minNewWords]);
+
+  // Hand over the speculative translation, and with it the abort, if it was for exactly this final text; otherwise drop it
+  const take = useCallback((finalText: string, route: SpeculationRoute): SpeculativeTranslation | undefined => {
+    const current = currentRef.current;
+    const matches = Boolean(
+      current &&
+      current.key === normalize(finalText) &&
+      current.sourceLang === route.sourceLang &&
+      current.targetLang === route.targetLang
+    );
+    if (matches) currentRef.current = null;
+    reset();
+    return matches ? { promise: current!.promise, controller: current!.controller } : undefined;
+  }, [reset]);
+
+  useEffect(() => {
+    if (!enabled) reset();
+  }, [enabled, reset]);
+
+  // Abort anything in flight on unmount
+  useEffect(() => reset, [reset]);
+
+  return { preview, update, take, reset };
+};
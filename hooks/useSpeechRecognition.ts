@@ -1,101 +1,77 @@
-
 import { useState, useEffect, useCallback, useRef } from 'react';
+import { createSttEngine, SttEngine, SttEngineFactory } from '../services/speechToText';
+import { VadSettings } from '../services/voiceActivity';
+
+type LevelListener = (level: number) => void;
 
 interface UseSpeechRecognitionProps {
   lang: string;
-  onResult: (text: string, isFinal: boolean) => void;
+  // `lang` is the recognition language the result was produced in, which may lag behind a just-changed prop
+  onResult: (text: string, isFinal: boolean, lang: string) => void;
   onError: (error: string) => void;
+  vad: VadSettings;
+  // Defaults to the engine chosen by STT_ENGINE
+  createEngine?: SttEngineFactory;
 }
 
-export const useSpeechRecognition = ({ lang, onResult, onError }: UseSpeechRecognitionProps) => {
+export const useSpeechRecognition = ({ lang, onResult, onError, vad, createEngine = createSttEngine }: UseSpeechRecognitionProps) => {
   const [isListening, setIsListening] = useState(false);
-  const recognitionRef = useRef<any>(null);
-  const shouldBeListening = useRef(false);
+  const engineRef = useRef<SttEngine | null>(null);
+  // The level changes ~20 times a second; only the meter subscribes so the app does not re-render
+  const levelListenersRef = useRef(new Set<LevelListener>());
+  // Callbacks change with every speaker/language switch; keep them out of the setup dependencies
+  const onResultRef = useRef(onResult);
+  const onErrorRef = useRef(onError);
+  onResultRef.current = onResult;
+  onErrorRef.current = onError;
+  const langRef = useRef(lang);
+  langRef.current = lang;
+  const vadRef = useRef(vad);
+  vadRef.current = vad;
 
-  const setupRecognition = useCallback(() => {
-    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
-    
-    if (!SpeechRecognition) {
-      onError("Speech recognition not supported in this browser.");
+  useEffect(() => {
+    let engine: SttEngine;
+    try {
+      engine = createEngine(langRef.current, vadRef.current, {
+        onResult: (text, isFinal, resultLang) => onResultRef.current(text, isFinal, resultLang),
+        onError: (error) => onErrorRef.current(error),
+        onListeningChange: setIsListening,
+        onLevel: (level) => levelListenersRef.current.forEach(listener => listener(level)),
+      });
+    } catch (err) {
+      onErrorRef.current(err instanceof Error ? err.message : String(err));
       return;
     }
-
-    const recognition = new SpeechRecognition();
-    recognition.continuous = true;
-    recognition.interimResults = true;
-    recognition.lang = lang;
-
-    recognition.onstart = () => setIsListening(true);
-    
-    recognition.onend = () => {
-      setIsListening(false);
-      // Auto-restart if it was stopped by the browser but the user still wants to listen
-      if (shouldBeListening.current) {
-        try {
-          recognition.start();
-        } catch (e) {
-          console.warn("Could not auto-restart recognition", e);
-        }
-      }
-    };
-
-    recognition.onerror = (event: any) => {
-      // Ignore some common harmless errors that trigger onend anyway
-      if (event.error === 'no-speech' || event.error === 'audio-capture') {
-        console.warn("Recognition warning:", event.error);
-        return;
-      }
-      console.error("Speech Recognition Error:", event.error);
-      onError(event.error);
-    };
-
-    recognition.onresult = (event: any) => {
-      let interimTranscript = '';
-      let finalTranscript = '';
-
-      for (let i = event.resultIndex; i < event.results.length; ++i) {
-        if (event.results[i].isFinal) {
-          finalTranscript += event.results[i][0].transcript;
-        } else {
-          interimTranscript += event.results[i][0].transcript;
-        }
-      }
-
-      if (finalTranscript) {
-        onResult(finalTranscript.trim(), true);
-      } else if (interimTranscript) {
-        onResult(interimTranscript.trim(), false);
-      }
+    engineRef.current = engine;
+    return () => {
+      engineRef.current = null;
+      engine.dispose();
     };
+  }, [createEngine]);
 
-    recognitionRef.current = recognition;
-  }, [lang, onResult, onError]);
+  // Carry on listening in the new language; speech already captured stays in the old one
+  useEffect(() => {
+    engineRef.current?.setLang(lang);
+  }, [lang]);
 
   useEffect(() => {
-    setupRecognition();
+    engineRef.current?.setVad(vad);
+  }, [vad]);
+
+  const subscribeLevel = useCallback((listener: LevelListener) => {
+    levelListenersRef.current.add(listener);
     return () => {
-      shouldBeListening.current = false;
-      if (recognitionRef.current) recognitionRef.current.stop();
+      levelListenersRef.current.delete(listener);
     };
-  }, [setupRecognition]);
+  }, []);
 
   const startListening = useCallback(() => {
-    shouldBeListening.current = true;
-    if (recognitionRef.current) {
-      try {
-        recognitionRef.current.start();
-      } catch (e) {
-        // Recognition might already be starting
-      }
-    }
+    engineRef.current?.start();
   }, []);
 
   const stopListening = useCallback(() => {
-    shouldBeListening.current = false;
-    if (recognitionRef.current) {
-      recognitionRef.current.stop();
-    }
+    engineRef.current?.stop();
   }, []);
 
-  return { isListening, startListening, stopListening };
+  return { isListening, subscribeLevel, startListening, stopListening };
 };
@@ -0,0 +1,100 @@
+import React, { useCallback, useEffect, useRef } from 'react';
+import { TranscriptEntry } from '../types';
+import { assessTeachBack } from '../services/teachBack';
+
+interface UseTeachBackProps {
+  transcripts: TranscriptEntry[];
+  setTranscripts: React.Dispatch<React.SetStateAction<TranscriptEntry[]>>;
+  // Ask the patient, in their language, to repeat the instruction back
+  onPrompt: (instruction: TranscriptEntry) => void;
+}
+
+// The reply in the instruction's language: translated for a patient speaking their own language,
+// as spoken when they answered in the provider's language
+const replyText = (instruction: TranscriptEntry, reply: TranscriptEntry) =>
+  reply.sourceLang === instruction.sourceLang ? reply.originalText : reply.translatedText;
+
+export const useTeachBack = ({ transcripts, setTranscripts, onPrompt }: UseTeachBackProps) => {
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  const updateEntry = useCallback((id: string, change: (entry: TranscriptEntry) => Partial<TranscriptEntry>) => {
+    setTranscripts(prev => prev.map(e => (e.id === id ? { ...e, ...change(e) } : e)));
+  }, [setTranscripts]);
+
+  const toggleKeyInstruction = useCallback((entryId: string) => {
+    updateEntry(entryId, e => ({ keyInstruction: !e.keyInstruction }));
+  }, [updateEntry]);
+
+  // Only one teach-back waits for a reply at a time; starting another cancels the previous wait
+  const startTeachBack = useCallback((instruction: TranscriptEntry) => {
+    controllersRef.current.get(instruction.id)?.abort();
+    setTranscripts(prev => prev.map(e => {
+      if (e.id === instruction.id) return { ...e, keyInstruction: true, teachBack: { status: 'awaiting', requestedAt: new Date() } };
+      if (e.teachBack?.status === 'awaiting') return { ...e, teachBack: undefined };
+      return e;
+    }));
+    onPrompt(instruction);
+  }, [setTranscripts, onPrompt]);
+
+  const cancelTeachBack = useCallback((entryId: string) => {
+    controllersRef.current.get(entryId)?.abort();
+    controllersRef.current.delete(entryId);
+    updateEntry(entryId, () => ({ teachBack: undefined }));
+  }, [updateEntry]);
+
+  const assess = useCallback(async (instruction: TranscriptEntry, reply: TranscriptEntry) => {
+    const controller = new AbortController();
+    controllersRef.current.set(instruction.id, controller);
+    const requestedAt = instruction.teachBack?.requestedAt ?? new Date();
+    try {
+      const result = await assessTeachBack(instruction.originalText, replyText(instruction, reply), instruction.sourceLang, {
+        signal: controller.signal,
+      });
+      if (controller.signal.aborted) return;
+      updateEntry(instruction.id, () => ({
+        teachBack: { status: 'done', requestedAt, replyEntryId: reply.id, ...result, assessedAt: new Date() },
+      }));
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error("Teach-back assessment error:", error);
+      // Wait for a fresh reply rather than retrying this one in a loop
+      updateEntry(instruction.id, () => ({ teachBack: { status: 'awaiting', requestedAt: new Date() } }));
+      updateEntry(reply.id, () => ({ teachBackFor: undefined }));
+    } finally {
+      if (controllersRef.current.get(instruction.id) === controller) controllersRef.current.delete(instruction.id);
+    }
+  }, [updateEntry]);
+
+  // The first translated patient turn after the prompt is the reply
+  useEffect(() => {
+    // Assessments interrupted by a lock or reload are run again
+    for (const entry of transcripts) {
+      if (entry.teachBack?.status !== 'assessing' || controllersRef.current.has(entry.id)) continue;
+      const reply = transcripts.find(e => e.id === entry.teachBack!.replyEntryId);
+      if (reply) assess(entry, reply);
+    }
+
+    const instruction = transcripts.find(e => e.teachBack?.status === 'awaiting');
+    if (!instruction) return;
+    const reply = transcripts.find(e =>
+      e.speaker === 'patient' &&
+      e.sequence > instruction.sequence &&
+      e.timestamp >= instruction.teachBack!.requestedAt &&
+      e.status === 'translated' &&
+      !e.teachBackFor
+    );
+    if (!reply) return;
+    setTranscripts(prev => prev.map(e => {
+      if (e.id === instruction.id) return { ...e, teachBack: { ...instruction.teachBack!, status: 'assessing', replyEntryId: reply.id } };
+      if (e.id === reply.id) return { ...e, teachBackFor: instruction.id };
+      return e;
+    }));
+    assess(instruction, reply);
+  }, [transcripts, setTranscripts, assess]);
+
+  useEffect(() => () => {
+    controllersRef.current.forEach(controller => controller.abort());
+  }, []);
+
+  return { toggleKeyInstruction, startTeachBack, cancelTeachBack };
+};
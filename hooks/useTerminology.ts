@@ -0,0 +1,40 @@
+import { useCallback, useMemo, useState } from 'react';
+import { TermEntry } from '../types';
+import { DEFAULT_LEXICON } from '../services/defaultLexicon';
+import { createLexicon, parseLexiconFile } from '../services/terminology';
+
+const LEXICON_KEY = 'terminology_lexicon';
+
+// An imported lexicon is reference data, not patient data, so it is kept unencrypted
+const readStoredLexicon = (): TermEntry[] | null => {
+  try {
+    const raw = localStorage.getItem(LEXICON_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const useTerminology = () => {
+  const [entries, setEntries] = useState<TermEntry[]>(() => readStoredLexicon() ?? DEFAULT_LEXICON);
+  const [isCustom, setIsCustom] = useState(() => readStoredLexicon() !== null);
+  const lexicon = useMemo(() => createLexicon(entries), [entries]);
+
+  // Rejects with a readable message when the file does not parse
+  const importFile = useCallback(async (file: File) => {
+    const imported = parseLexiconFile(file.name, await file.text());
+    if (!imported.length) throw new Error('The file does not contain any terms.');
+    localStorage.setItem(LEXICON_KEY, JSON.stringify(imported));
+    setEntries(imported);
+    setIsCustom(true);
+    return imported.length;
+  }, []);
+
+  const resetToDefault = useCallback(() => {
+    localStorage.removeItem(LEXICON_KEY);
+    setEntries(DEFAULT_LEXICON);
+    setIsCustom(false);
+  }, []);
+
+  return { lexicon, isCustom, importFile, resetToDefault };
+};
@@ -0,0 +1,289 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { GlossaryEntry, SpeculativeTranslation, TranscriptEntry, TranslationResult } from '../types';
+import { translateMedicalText } from '../services/translationService';
+import { assessTranslationQuality } from '../services/qualityCheck';
+import { checkDosageIntegrity } from '../services/dosageGuard';
+import { buildConversationContext } from '../services/conversationContext';
+import { Phrase, translateFromPhrasebook } from '../services/phrasebook';
+
+interface UseTranslationQueueOptions {
+  glossary?: GlossaryEntry[];
+  // Current transcript; earlier translated turns are sent as context when enabled
+  transcripts?: TranscriptEntry[];
+  contextEnabled?: boolean;
+}
+
+interface EnqueueOptions {
+  sourceLang: string;
+  targetLang: string;
+  speaker: TranscriptEntry['speaker'];
+  detectedLang?: string;
+  // Translation already started for this exact text and direction, e.g. speculatively from interim speech
+  speculative?: SpeculativeTranslation;
+}
+
+// Failed translations keep an empty translatedText so an error can never be read aloud
+type ResultFields = Pick<TranscriptEntry, 'translatedText' | 'status' | 'error' | 'quality' | 'glossaryViolations' | 'phrasebookId' | 'queuedOffline'>;
+
+// Every field a new result replaces, cleared; each outcome sets only what it has
+const emptyResult: ResultFields = {
+  translatedText: '',
+  status: 'pending',
+  error: undefined,
+  quality: undefined,
+  glossaryViolations: undefined,
+  phrasebookId: undefined,
+  queuedOffline: undefined,
+};
+
+const resultFields = (result: TranslationResult): ResultFields =>
+  result.status === 'success'
+    ? { ...emptyResult, translatedText: result.text, status: 'translated', glossaryViolations: result.glossaryViolations }
+    : { ...emptyResult, status: 'failed', error: result.error };
+
+// Vetted phrasebook translations skip the back-translation check
+const phrasebookFields = (phrase: Phrase, translatedText: string): ResultFields =>
+  ({ ...emptyResult, translatedText, status: 'translated', phrasebookId: phrase.id });
+
+// Without a connection an utterance either is a phrasebook phrase or waits; quota errors fall back to phrases too
+const offlineFallback = (text: string, sourceLang: string, targetLang: string, result?: TranslationResult): ResultFields | null => {
+  if (result && (result.status === 'success' || !['network', 'quota'].includes(result.error.kind))) return null;
+  const match = translateFromPhrasebook(text, sourceLang, targetLang);
+  if (match) return phrasebookFields(match.phrase, match.text);
+  if (navigator.onLine) return null;
+  return { ...emptyResult, queuedOffline: true };
+};
+
+// Keep spoken order even if entries are ever inserted out of sequence
+const insertBySequence = (entries: TranscriptEntry[], entry: TranscriptEntry) => {
+  const index = entries.findIndex(e => e.sequence > entry.sequence);
+  return index === -1 ? [...entries, entry] : [...entries.slice(0, index), entry, ...entries.slice(index)];
+};
+
+export const useTranslationQueue = (
+  setTranscripts: React.Dispatch<React.SetStateAction<TranscriptEntry[]>>,
+  { glossary = [], transcripts = [], contextEnabled = false }: UseTranslationQueueOptions = {}
+) => {
+  const [pendingCount, setPendingCount] = useState(0);
+  // Read at request time so settings apply to the next utterance without re-creating callbacks
+  const optionsRef = useRef({ glossary, transcripts, contextEnabled });
+  optionsRef.current = { glossary, transcripts, contextEnabled };
+  const sequenceRef = useRef(0);
+  // In-flight requests keyed by entry ID; aborted whenever the session state they were issued for changes
+  const pendingRef = useRef(new Map<string, AbortController>());
+  // Back-translation checks run after the entry is already shown; cancelling them never fails the entry
+  const qualityRef = useRef(new Map<string, AbortController>());
+
+  const updateEntry = useCallback((id: string, fields: Partial<TranscriptEntry>) => {
+    setTranscripts(prev => prev.map(e => (e.id === id ? { ...e, ...fields } : e)));
+  }, [setTranscripts]);
+
+  const checkQuality = useCallback(async (id: string, originalText: string, translatedText: string, sourceLang: string, targetLang: string) => {
+    qualityRef.current.get(id)?.abort();
+    const controller = new AbortController();
+    qualityRef.current.set(id, controller);
+
+    try {
+      const quality = await assessTranslationQuality(originalText, translatedText, sourceLang, targetLang, { signal: controller.signal });
+      if (qualityRef.current.get(id) !== controller) return;
+      updateEntry(id, { quality });
+    } finally {
+      if (qualityRef.current.get(id) === controller) qualityRef.current.delete(id);
+    }
+  }, [updateEntry]);
+
+  // Turns spoken before the given position in the conversation
+  const contextBefore = (sequence: number) => {
+    const { transcripts, contextEnabled } = optionsRef.current;
+    return contextEnabled ? buildConversationContext(transcripts.filter(e => e.sequence < sequence)) : undefined;
+  };
+
+  const run = useCallback(async (
+    id: string,
+    sequence: number,
+    text: string,
+    sourceLang: string,
+    targetLang: string,
+    speculative?: SpeculativeTranslation
+  ) => {
+    pendingRef.current.get(id)?.abort();
+    qualityRef.current.get(id)?.abort();
+    qualityRef.current.delete(id);
+
+    // No request is attempted while the browser reports no connection
+    const offline = navigator.onLine ? null : offlineFallback(text, sourceLang, targetLang);
+    if (offline) {
+      speculative?.controller.abort();
+      pendingRef.current.delete(id);
+      setPendingCount(pendingRef.current.size);
+      updateEntry(id, {
+        ...offline,
+        latency: undefined,
+        integrity: offline.status === 'translated' ? checkDosageIntegrity(text, sourceLang, offline.translatedText, targetLang) : undefined,
+        integrityConfirmedAt: undefined,
+      });
+      return;
+    }
+
+    const controller = new AbortController();
+    pendingRef.current.set(id, controller);
+    setPendingCount(pendingRef.current.size);
+    // A speculative request now belongs to this entry, so cancelling the entry cancels it
+    if (speculative) controller.signal.addEventListener('abort', () => speculative.controller.abort(), { once: true });
+
+    const startedAt = performance.now();
+    let firstTextAt: number | null = null;
+
+    try {
+      const result = await (speculative?.promise ?? translateMedicalText(text, sourceLang, targetLang, {
+        signal: controller.signal,
+        glossary: optionsRef.current.glossary,
+        context: contextBefore(sequence),
+        // Partial text stays on the pending entry; it is never spoken or exported until finalized
+        onPartial: partialText => {
+          if (pendingRef.current.get(id) !== controller) return;
+          firstTextAt ??= performance.now();
+          updateEntry(id, { translatedText: partialText });
+        },
+      }));
+      // A newer request for the same entry owns the result now
+      if (pendingRef.current.get(id) !== controller) return;
+      const fallback = offlineFallback(text, sourceLang, targetLang, result);
+      if (fallback) {
+        updateEntry(id, {
+          ...fallback,
+          latency: undefined,
+          integrity: fallback.status === 'translated' ? checkDosageIntegrity(text, sourceLang, fallback.translatedText, targetLang) : undefined,
+          integrityConfirmedAt: undefined,
+        });
+        return;
+      }
+      const totalMs = Math.round(performance.now() - startedAt);
+      updateEntry(id, {
+        ...resultFields(result),
+        latency: result.status === 'success'
+          ? { firstTextMs: firstTextAt === null ? totalMs : Math.round(firstTextAt - startedAt), totalMs }
+          : undefined,
+        integrity: result.status === 'success'
+          ? checkDosageIntegrity(text, sourceLang, result.text, targetLang)
+          : undefined,
+        integrityConfirmedAt: undefined,
+      });
+      if (result.status === 'success') {
+        checkQuality(id, text, result.text, sourceLang, targetLang);
+      }
+    } finally {
+      if (pendingRef.current.get(id) === controller) {
+        pendingRef.current.delete(id);
+        setPendingCount(pendingRef.current.size);
+      }
+    }
+  }, [updateEntry, checkQuality]);
+
+  // Add a placeholder in spoken order right away and fill it in when its translation lands
+  const enqueue = useCallback((text: string, { sourceLang, targetLang, speaker, detectedLang, speculative }: EnqueueOptions) => {
+    const entry: TranscriptEntry = {
+      id: crypto.randomUUID(),
+      sequence: ++sequenceRef.current,
+      originalText: text,
+      translatedText: '',
+      timestamp: new Date(),
+      sourceLang,
+      targetLang,
+      speaker,
+      detectedLang,
+      status: 'pending',
+    };
+    setTranscripts(prev => insertBySequence(prev, entry));
+    run(entry.id, entry.sequence, text, sourceLang, targetLang, speculative);
+    return entry.id;
+  }, [setTranscripts, run]);
+
+  // A phrase picked from the phrasebook panel; its translation is already vetted
+  const enqueuePhrase = useCallback((phrase: Phrase, { sourceLang, targetLang, speaker }: EnqueueOptions) => {
+    const entry: TranscriptEntry = {
+      id: crypto.randomUUID(),
+      sequence: ++sequenceRef.current,
+      originalText: phrase.text[sourceLang],
+      timestamp: new Date(),
+      sourceLang,
+      targetLang,
+      speaker,
+      ...phrasebookFields(phrase, phrase.text[targetLang]),
+      integrity: checkDosageIntegrity(phrase.text[sourceLang], sourceLang, phrase.text[targetLang], targetLang),
+    };
+    setTranscripts(prev => insertBySequence(prev, entry));
+    return entry.id;
+  }, [setTranscripts]);
+
+  // Translate text that is about to become the next entry, with the same glossary and context it would get
+  const translateAhead = useCallback((text: string, sourceLang: string, targetLang: string, signal: AbortSignal) =>
+    translateMedicalText(text, sourceLang, targetLang, {
+      signal,
+      glossary: optionsRef.current.glossary,
+      context: contextBefore(sequenceRef.current + 1),
+    }), []);
+
+  // Re-run an entry in place, optionally with corrected source text
+  const retry = useCallback((entry: TranscriptEntry, text: string = entry.originalText) => {
+    updateEntry(entry.id, {
+      originalText: text,
+      translatedText: '',
+      status: 'pending',
+      error: undefined,
+      quality: undefined,
+      glossaryViolations: undefined,
+      latency: undefined,
+      manualTranslation: undefined,
+    });
+    run(entry.id, entry.sequence, text, entry.sourceLang, entry.targetLang);
+  }, [updateEntry, run]);
+
+  // Abort everything in flight; affected placeholders become failed entries that can be retried
+  const cancelAll = useCallback(() => {
+    const ids = new Set(pendingRef.current.keys());
+    pendingRef.current.forEach(controller => controller.abort());
+    pendingRef.current.clear();
+    qualityRef.current.forEach(controller => controller.abort());
+    qualityRef.current.clear();
+    setPendingCount(0);
+    if (ids.size === 0) return;
+    setTranscripts(prev => prev.map(e =>
+      ids.has(e.id)
+        ? { ...e, translatedText: '', status: 'failed', error: { kind: 'cancelled', message: 'Translation was cancelled before it completed.' } }
+        : e
+    ));
+  }, [setTranscripts]);
+
+  // Queued utterances go out in spoken order once online
+  const flushQueued = useCallback(() => {
+    if (!navigator.onLine) return;
+    optionsRef.current.transcripts
+      .filter(e => e.queuedOffline && !pendingRef.current.has(e.id))
+      .sort((a, b) => a.sequence - b.sequence)
+      .forEach(e => {
+        updateEntry(e.id, { queuedOffline: undefined });
+        run(e.id, e.sequence, e.originalText, e.sourceLang, e.targetLang);
+      });
+  }, [updateEntry, run]);
+
+  useEffect(() => {
+    window.addEventListener('online', flushQueued);
+    return () => window.removeEventListener('online', flushQueued);
+  }, [flushQueued]);
+
+  // Bumped on every restore; the flush waits for the restored entries to render, after the
+  // cancellation that a restored session's language switch triggers
+  const [restoredCount, setRestoredCount] = useState(0);
+  useEffect(() => {
+    if (restoredCount) flushQueued();
+  }, [restoredCount, flushQueued]);
+
+  // Continue numbering after the entries of a restored session and send what it had queued offline
+  const resetSequence = useCallback((entries: TranscriptEntry[]) => {
+    sequenceRef.current = entries.reduce((max, e) => Math.max(max, e.sequence), 0);
+    if (entries.some(e => e.queuedOffline)) setRestoredCount(count => count + 1);
+  }, []);
+
+  return { enqueue, enqueuePhrase, retry, cancelAll, resetSequence, translateAhead, pendingCount };
+};
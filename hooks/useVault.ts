@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { decryptBytes, decryptJson, deriveKey, encryptBytes, encryptJson, fromBase64, importHmacKey, randomBytes, toBase64 } from '../services/vaultCrypto';
+import { setStorageKey, wipeAllSessions } from '../services/sessionStore';
+
+export type VaultStatus = 'setup' | 'locked' | 'unlocked';
+
+export const MIN_PASSPHRASE_LENGTH = 6;
+const VAULT_KEY = 'vault_meta';
+const VERIFIER = 'healthtrans-vault';
+const DEFAULT_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'wheel'] as const;
+
+// Per-device salt plus an encrypted known value used to check the passphrase
+interface VaultMeta {
+  salt: string;
+  iv: string;
+  check: string;
+  // Random secret for keying speech clip IDs, encrypted with the vault key; absent in vaults set up before it existed
+  clipSecret?: { iv: string; data: string };
+}
+
+const writeMeta = (meta: VaultMeta) => localStorage.setItem(VAULT_KEY, JSON.stringify(meta));
+
+// Decrypts the clip secret, creating it for a vault that has none yet
+const clipIndexKey = async (key: CryptoKey, meta: VaultMeta): Promise<CryptoKey> => {
+  if (meta.clipSecret) {
+    const { iv, data } = meta.clipSecret;
+    return importHmacKey(await decryptBytes(key, { iv: fromBase64(iv), data: fromBase64(data).buffer }));
+  }
+  const secret = randomBytes(32);
+  const { iv, data } = await encryptBytes(key, secret.buffer);
+  writeMeta({ ...meta, clipSecret: { iv: toBase64(iv), data: toBase64(data) } });
+  return importHmacKey(secret.buffer);
+};
+
+const readMeta = (): VaultMeta | null => {
+  try {
+    const raw = localStorage.getItem(VAULT_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+interface UseVaultProps {
+  // Called when the idle timeout elapses; the caller saves its work and then calls lock()
+  onIdle: () => void;
+  idleTimeoutMs?: number;
+}
+
+export const useVault = ({ onIdle, idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS }: UseVaultProps) => {
+  const [status, setStatus] = useState<VaultStatus>(() => (readMeta() ? 'locked' : 'setup'));
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+  // Restarts the idle timer while unlocked
+  const resetIdleRef = useRef(() => {});
+
+  const setup = useCallback(async (passphrase: string) => {
+    const salt = randomBytes(16);
+    const key = await deriveKey(passphrase, salt);
+    const { iv, data } = await encryptJson(key, VERIFIER);
+    const meta: VaultMeta = { salt: toBase64(salt), iv: toBase64(iv), check: toBase64(data) };
+    writeMeta(meta);
+    setStorageKey(key, await clipIndexKey(key, meta));
+    setStatus('unlocked');
+  }, []);
+
+  // Resolves false for a wrong passphrase
+  const unlock = useCallback(async (passphrase: string): Promise<boolean> => {
+    const meta = readMeta();
+    if (!meta) return false;
+    const key = await deriveKey(passphrase, fromBase64(meta.salt));
+    try {
+      const check = await decryptJson<string>(key, { iv: fromBase64(meta.iv), data: fromBase64(meta.check).buffer });
+      if (check !== VERIFIER) return false;
+    } catch {
+      return false;
+    }
+    setStorageKey(key, await clipIndexKey(key, meta));
+    setStatus('unlocked');
+    return true;
+  }, []);
+
+  const lock = useCallback(() => {
+    setStorageKey(null);
+    setStatus(readMeta() ? 'locked' : 'setup');
+  }, []);
+
+  // Panic wipe: destroy every stored session and the passphrase verifier
+  const wipe = useCallback(async () => {
+    await wipeAllSessions();
+    try { localStorage.removeItem(VAULT_KEY); } catch {}
+    setStatus('setup');
+  }, []);
+
+  useEffect(() => {
+    if (status !== 'unlocked') return;
+
+    let timer = setTimeout(() => onIdleRef.current(), idleTimeoutMs);
+    const reset = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => onIdleRef.current(), idleTimeoutMs);
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, reset, { passive: true }));
+    resetIdleRef.current = reset;
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, reset));
+      resetIdleRef.current = () => {};
+    };
+  }, [status, idleTimeoutMs]);
+
+  // Activity without input events, such as speech recognized during hands-free listening
+  const markActivity = useCallback(() => resetIdleRef.current(), []);
+
+  return { status, setup, unlock, lock, wipe, markActivity };
+};
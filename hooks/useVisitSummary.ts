@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { GlossaryEntry, TranscriptEntry } from '../types';
+import { summarizeVisit, VisitSummary } from '../services/visitSummary';
+import { toTranslationError } from '../services/translationErrors';
+
+interface UseVisitSummaryProps {
+  sessionId: string | null;
+  transcripts: TranscriptEntry[];
+  sourceLang: string;
+  targetLang: string;
+  glossary: GlossaryEntry[];
+}
+
+export const useVisitSummary = ({ sessionId, transcripts, sourceLang, targetLang, glossary }: UseVisitSummaryProps) => {
+  const [summary, setSummary] = useState<VisitSummary | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsGenerating(false);
+  }, []);
+
+  const generate = useCallback(async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const result = await summarizeVisit(transcripts, sourceLang, targetLang, { glossary, signal: controller.signal });
+      if (controller.signal.aborted) return;
+      setSummary(result);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Visit summary error:", err);
+      setError(toTranslationError(err).toFailure().message);
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setIsGenerating(false);
+      }
+    }
+  }, [transcripts, sourceLang, targetLang, glossary]);
+
+  // A summary belongs to one session; starting or resuming another discards it
+  useEffect(() => {
+    cancel();
+    setSummary(null);
+    setError(null);
+  }, [sessionId, cancel]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { summary, isGenerating, error, generate, cancel };
+};
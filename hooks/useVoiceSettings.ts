@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+import { LanguageVoice, defaultVoiceSettings, readVoiceSettings, VoiceSettings, writeVoiceSettings } from '../services/voiceSettings';
+
+export interface ResolvedVoice {
+  voice: string;
+  style: string;
+  browserVoiceURI?: string;
+  pitch: number;
+}
+
+export const useVoiceSettings = () => {
+  const [settings, setSettings] = useState<VoiceSettings>(readVoiceSettings);
+  const [browserVoices, setBrowserVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  // Browsers load their voice list asynchronously and announce it with voiceschanged
+  useEffect(() => {
+    if (!('speechSynthesis' in window)) return;
+    const load = () => setBrowserVoices(window.speechSynthesis.getVoices());
+    load();
+    window.speechSynthesis.addEventListener('voiceschanged', load);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', load);
+  }, []);
+
+  const update = useCallback((change: (prev: VoiceSettings) => VoiceSettings) => {
+    setSettings(prev => {
+      const next = change(prev);
+      writeVoiceSettings(next);
+      return next;
+    });
+  }, []);
+
+  const setLanguageVoice = useCallback((lang: string, voice: Partial<LanguageVoice>) => {
+    update(prev => ({ ...prev, voices: { ...prev.voices, [lang]: { ...prev.voices[lang], ...voice } } }));
+  }, [update]);
+
+  const setPitch = useCallback((pitch: number) => update(prev => ({ ...prev, pitch })), [update]);
+
+  const setStyle = useCallback((style: string) => update(prev => ({ ...prev, style })), [update]);
+
+  const reset = useCallback(() => update(() => defaultVoiceSettings()), [update]);
+
+  const voiceFor = useCallback((lang: string): ResolvedVoice => {
+    const voice = settings.voices[lang] ?? defaultVoiceSettings().voices[lang] ?? { gemini: 'Kore' };
+    return { voice: voice.gemini, style: settings.style, browserVoiceURI: voice.browserVoiceURI, pitch: settings.pitch };
+  }, [settings]);
+
+  return { settings, browserVoices, setLanguageVoice, setPitch, setStyle, reset, voiceFor };
+};
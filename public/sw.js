@@ -0,0 +1,66 @@
+// Offline shell: the app opens without a connection. Only the app and its CDN dependencies are cached;
+// translation, speech and transcription requests are never stored.
+const CACHE = 'healthtrans-shell-v1';
+
+// Third-party hosts the shell loads from (Tailwind, fonts, import map)
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'esm.sh'];
+
+// The built index.html names the hashed bundles; cache them with the page
+const precache = async () => {
+  const cache = await caches.open(CACHE);
+  const response = await fetch('/', { cache: 'no-cache' });
+  const html = await response.clone().text();
+  const assets = Array.from(html.matchAll(/(?:src|href)="(\/[^"]+)"/g), m => m[1]);
+  await cache.put('/', response);
+  await cache.addAll(['/manifest.webmanifest', '/icon.svg', ...new Set(assets)]);
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(precache().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const isCacheable = url => url.origin === self.location.origin || CDN_HOSTS.includes(url.hostname);
+
+// Pages: network first so deployments show up, cached shell when offline
+const navigate = async request => {
+  try {
+    const response = await fetch(request);
+    const cache = await caches.open(CACHE);
+    await cache.put('/', response.clone());
+    return response;
+  } catch {
+    return (await caches.match('/')) ?? Response.error();
+  }
+};
+
+// Assets: cached copy right away, refreshed in the background
+const staleWhileRevalidate = async request => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  const network = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached ?? Response.error());
+  return cached ?? network;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(navigate(request));
+  } else if (isCacheable(url)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+});
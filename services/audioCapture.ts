@@ -0,0 +1,117 @@
+// Raw PCM capture through an AudioWorklet, from the microphone or from a recorded file.
+// The file source plays the recording in real time through the same pipeline, so engines
+// can be exercised with known audio instead of a live speaker.
+
+import { createAudioContext } from './audioUtils';
+
+export interface AudioCapture {
+  // Sample rate of the frames delivered to onFrame
+  readonly sampleRate: number;
+  // `onInterrupted` fires if the input goes away mid-capture, e.g. the microphone is unplugged
+  start(onFrame: (frame: Float32Array) => void, onInterrupted?: () => void): Promise<void>;
+  stop(): void;
+}
+
+const PROCESSOR_NAME = 'pcm-capture';
+
+// Posts each 128-sample render quantum of the first input channel to the main thread
+const PROCESSOR_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) this.port.postMessage(channel.slice(0));
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', PcmCaptureProcessor);
+`;
+
+const openWorklet = async (ctx: AudioContext, onFrame: (frame: Float32Array) => void) => {
+  const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, { numberOfInputs: 1, numberOfOutputs: 0 });
+  node.port.onmessage = (e: MessageEvent<Float32Array>) => onFrame(e.data);
+  return node;
+};
+
+export const isAudioCaptureSupported = () =>
+  typeof window !== 'undefined' &&
+  typeof window.AudioWorkletNode === 'function' &&
+  Boolean(navigator.mediaDevices?.getUserMedia);
+
+export function createMicrophoneCapture(): AudioCapture {
+  let ctx: AudioContext | null = null;
+  let stream: MediaStream | null = null;
+  let stopped = false;
+
+  return {
+    get sampleRate() {
+      return ctx?.sampleRate ?? 48000;
+    },
+    async start(onFrame, onInterrupted) {
+      stopped = false;
+      // Browser processing tuned for calls keeps the recognizer input clean
+      const granted = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true },
+      });
+      // Stopped while the permission prompt was open
+      if (stopped) {
+        granted.getTracks().forEach(track => track.stop());
+        return;
+      }
+      stream = granted;
+      granted.getAudioTracks().forEach(track => {
+        track.onended = () => {
+          if (!stopped) onInterrupted?.();
+        };
+      });
+      ctx = createAudioContext();
+      const node = await openWorklet(ctx, onFrame);
+      ctx?.createMediaStreamSource(granted).connect(node);
+    },
+    stop() {
+      stopped = true;
+      stream?.getTracks().forEach(track => track.stop());
+      ctx?.close();
+      stream = null;
+      ctx = null;
+    },
+  };
+}
+
+// `onEnded` fires once the recording has played to the end
+export function createFileCapture(file: Blob, onEnded?: () => void): AudioCapture {
+  let ctx: AudioContext | null = null;
+  let source: AudioBufferSourceNode | null = null;
+
+  return {
+    get sampleRate() {
+      return ctx?.sampleRate ?? 48000;
+    },
+    async start(onFrame) {
+      ctx = createAudioContext();
+      const buffer = await ctx.decodeAudioData(await file.arrayBuffer());
+      const node = await openWorklet(ctx, onFrame);
+      source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(node);
+      source.onended = () => onEnded?.();
+      source.start();
+    },
+    stop() {
+      if (source) source.onended = null;
+      try {
+        source?.stop();
+      } catch {
+        // Never started
+      }
+      ctx?.close();
+      source = null;
+      ctx = null;
+    },
+  };
+}
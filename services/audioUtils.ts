@@ -0,0 +1,104 @@
+// Older Safari only has the prefixed constructor
+export const createAudioContext = (options?: AudioContextOptions) =>
+  new (window.AudioContext || (window as Window & { webkitAudioContext?: typeof AudioContext }).webkitAudioContext!)(options);
+
+export function decodeBase64(base64: string): ArrayBuffer {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+export async function decodePcmAudio(
+  data: ArrayBuffer,
+  ctx: AudioContext,
+  sampleRate: number = 24000,
+  numChannels: number = 1
+): Promise<AudioBuffer> {
+  // First try decoding with browser's decoder (handles MP3/OGG/WAV/etc.)
+  try {
+    const audioBuffer = await new Promise<AudioBuffer>((resolve, reject) => {
+      // slice to detach the buffer for decodeAudioData in some browsers
+      ctx.decodeAudioData(data.slice(0), resolve, reject);
+    });
+    return audioBuffer;
+  } catch {
+    // Fall back to manual PCM (Int16) decoding as previously implemented
+    return pcmToAudioBuffer(data, ctx, sampleRate, numChannels);
+  }
+}
+
+// Headerless little-endian 16-bit PCM; a trailing odd byte is ignored
+export function pcmToAudioBuffer(
+  data: ArrayBuffer,
+  ctx: BaseAudioContext,
+  sampleRate: number = 24000,
+  numChannels: number = 1
+): AudioBuffer {
+  const dataInt16 = new Int16Array(data, 0, Math.floor(data.byteLength / 2));
+  const frameCount = Math.floor(dataInt16.length / numChannels);
+  const buffer = ctx.createBuffer(numChannels, Math.max(frameCount, 1), sampleRate);
+
+  for (let channel = 0; channel < numChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
+    }
+  }
+  return buffer;
+}
+
+export function encodeBase64(data: ArrayBuffer): string {
+  const bytes = new Uint8Array(data);
+  let binary = '';
+  // Chunked so large clips do not overflow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// Linear interpolation; good enough for speech sent to a recognizer
+export function resampleAudio(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+  if (fromRate === toRate) return samples;
+  const ratio = fromRate / toRate;
+  const out = new Float32Array(Math.floor(samples.length / ratio));
+  for (let i = 0; i < out.length; i++) {
+    const pos = i * ratio;
+    const left = Math.floor(pos);
+    const right = Math.min(left + 1, samples.length - 1);
+    out[i] = samples[left] + (samples[right] - samples[left]) * (pos - left);
+  }
+  return out;
+}
+
+// Mono 16-bit PCM WAV, the format every transcription endpoint accepts
+export function encodeWav(samples: Float32Array, sampleRate: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return buffer;
+}
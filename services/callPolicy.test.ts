@@ -0,0 +1,70 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { withCallPolicy } from './callPolicy';
+import { TranslationError } from './translationErrors';
+
+const POLICY = { timeoutMs: 50, retries: 2, baseDelayMs: 1, maxDelayMs: 2 };
+
+describe('withCallPolicy', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('resolves with the first successful attempt', async () => {
+    const call = vi.fn(async () => 'ok');
+    await expect(withCallPolicy(call, POLICY)).resolves.toBe('ok');
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries retryable failures until one succeeds', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const call = vi.fn()
+      .mockRejectedValueOnce(new Error('fetch failed'))
+      .mockRejectedValueOnce({ status: 429 })
+      .mockResolvedValueOnce('ok');
+    await expect(withCallPolicy(call, POLICY)).resolves.toBe('ok');
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the configured number of retries', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const call = vi.fn(async () => { throw new Error('fetch failed'); });
+    await expect(withCallPolicy(call, POLICY, { retries: 1 })).rejects.toMatchObject({ kind: 'network' });
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry failures that cannot succeed on a second try', async () => {
+    const call = vi.fn(async () => { throw new TranslationError('auth'); });
+    await expect(withCallPolicy(call, POLICY)).rejects.toMatchObject({ kind: 'auth' });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+
+  it('times out each attempt, aborts its signal and retries', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const signals: AbortSignal[] = [];
+    const call = vi.fn((signal: AbortSignal) => {
+      signals.push(signal);
+      return new Promise<string>(() => {});
+    });
+    await expect(withCallPolicy(call, POLICY, { retries: 1 })).rejects.toMatchObject({ kind: 'timeout' });
+    expect(call).toHaveBeenCalledTimes(2);
+    expect(signals.every(s => s.aborted)).toBe(true);
+  });
+
+  it('rejects as cancelled without calling when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const call = vi.fn(async () => 'ok');
+    await expect(withCallPolicy(call, POLICY, { signal: controller.signal })).rejects.toMatchObject({ kind: 'cancelled' });
+    expect(call).not.toHaveBeenCalled();
+  });
+
+  it('stops retrying when cancelled during the backoff delay', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const controller = new AbortController();
+    const call = vi.fn(async () => {
+      controller.abort();
+      throw new Error('fetch failed');
+    });
+    await expect(withCallPolicy(call, { ...POLICY, baseDelayMs: 1000, maxDelayMs: 1000 }, { signal: controller.signal }))
+      .rejects.toMatchObject({ kind: 'cancelled' });
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
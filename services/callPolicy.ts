@@ -0,0 +1,99 @@
+import { TranslationError, toTranslationError } from './translationErrors';
+
+export interface CallOptions {
+  // Caller-owned cancellation; aborting never triggers a retry
+  signal?: AbortSignal;
+  // Per-attempt timeout
+  timeoutMs?: number;
+  // Additional attempts after the first, for retryable failures only
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export const TRANSLATION_CALL_DEFAULTS: Required<Omit<CallOptions, 'signal'>> = {
+  timeoutMs: 15000,
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 4000,
+};
+
+export const SPEECH_CALL_DEFAULTS: Required<Omit<CallOptions, 'signal'>> = {
+  timeoutMs: 20000,
+  retries: 1,
+  baseDelayMs: 500,
+  maxDelayMs: 2000,
+};
+
+const RETRYABLE = new Set(['network', 'timeout', 'quota']);
+
+// Full jitter: a random delay between 0 and the capped exponential step
+const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new TranslationError('cancelled'));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new TranslationError('cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+async function attempt<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    // Race against the abort so providers that ignore the signal still settle promptly
+    return await Promise.race([
+      call(controller.signal),
+      new Promise<never>((_, reject) => {
+        controller.signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')), { once: true });
+      }),
+    ]);
+  } catch (error) {
+    if (signal?.aborted) throw new TranslationError('cancelled');
+    if (timedOut) throw new TranslationError('timeout');
+    throw toTranslationError(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+// Run a provider call with a per-attempt timeout, cancellation and exponential backoff
+export async function withCallPolicy<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  defaults: Required<Omit<CallOptions, 'signal'>>,
+  options: CallOptions = {}
+): Promise<T> {
+  const { signal, timeoutMs, retries, baseDelayMs, maxDelayMs } = { ...defaults, ...options };
+  if (signal?.aborted) throw new TranslationError('cancelled');
+
+  for (let i = 0; ; i++) {
+    try {
+      return await attempt(call, timeoutMs, signal);
+    } catch (error) {
+      const e = error as TranslationError;
+      if (i >= retries || !RETRYABLE.has(e.kind)) throw e;
+      console.warn(`Retrying after ${e.kind} error (attempt ${i + 1} of ${retries})`);
+      await sleep(backoffDelay(i, baseDelayMs, maxDelayMs), signal);
+    }
+  }
+}
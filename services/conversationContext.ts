@@ -0,0 +1,46 @@
+import { TranscriptEntry } from '../types';
+
+// Earlier turns sent alongside an utterance so pronouns, ellipsis and drugs mentioned before resolve correctly
+export type ContextTurn = Pick<TranscriptEntry, 'speaker' | 'sourceLang' | 'targetLang' | 'originalText' | 'translatedText'>;
+
+export interface ContextBudget {
+  maxTurns: number;
+  // Characters across all turns (roughly four per token)
+  maxChars: number;
+  // Longer utterances are clipped so one monologue cannot use up the whole window
+  maxCharsPerText: number;
+}
+
+export const DEFAULT_CONTEXT_BUDGET: ContextBudget = {
+  maxTurns: 6,
+  maxChars: 1600,
+  maxCharsPerText: 300,
+};
+
+const clip = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text);
+
+// Most recent translated turns before the current utterance, oldest first, within the budget
+export function buildConversationContext(
+  entries: TranscriptEntry[],
+  budget: ContextBudget = DEFAULT_CONTEXT_BUDGET
+): ContextTurn[] {
+  const turns: ContextTurn[] = [];
+  let used = 0;
+
+  for (let i = entries.length - 1; i >= 0 && turns.length < budget.maxTurns; i--) {
+    const entry = entries[i];
+    if (entry.status !== 'translated') continue;
+    const turn: ContextTurn = {
+      speaker: entry.speaker,
+      sourceLang: entry.sourceLang,
+      targetLang: entry.targetLang,
+      originalText: clip(entry.originalText, budget.maxCharsPerText),
+      translatedText: clip(entry.translatedText, budget.maxCharsPerText),
+    };
+    const size = turn.originalText.length + turn.translatedText.length;
+    if (used + size > budget.maxChars) break;
+    used += size;
+    turns.unshift(turn);
+  }
+  return turns;
+}
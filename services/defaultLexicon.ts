@@ -0,0 +1,134 @@
+import { TermEntry } from '../types';
+
+// Built-in terminology used until a facility imports its own lexicon
+export const DEFAULT_LEXICON: TermEntry[] = [
+  {
+    id: 'hypertension', category: 'condition', forms: {
+      'en-US': ['hypertension', 'high blood pressure'], 'es-ES': ['hipertensión', 'presión alta', 'presión arterial alta'],
+      'fr-FR': ['hypertension', 'hypertension artérielle'], 'zh-CN': ['高血压'], 'vi-VN': ['tăng huyết áp', 'cao huyết áp'],
+      'ar-SA': ['ارتفاع ضغط الدم'], 'hi-IN': ['उच्च रक्तचाप'], 'ru-RU': ['гипертония', 'гипертензия', 'повышенное давление'],
+    },
+  },
+  {
+    id: 'diabetes', category: 'condition', forms: {
+      'en-US': ['diabetes'], 'es-ES': ['diabetes'], 'fr-FR': ['diabète'], 'zh-CN': ['糖尿病'],
+      'vi-VN': ['tiểu đường', 'đái tháo đường'], 'ar-SA': ['السكري', 'مرض السكري'], 'hi-IN': ['मधुमेह', 'डायबिटीज'],
+      'ru-RU': ['диабет', 'сахарный диабет'],
+    },
+  },
+  {
+    id: 'hypoglycemia', category: 'condition', forms: {
+      'en-US': ['hypoglycemia', 'low blood sugar'], 'es-ES': ['hipoglucemia', 'hipoglicemia'], 'fr-FR': ['hypoglycémie'],
+      'zh-CN': ['低血糖'], 'vi-VN': ['hạ đường huyết'], 'ar-SA': ['نقص سكر الدم', 'انخفاض السكر'],
+      'hi-IN': ['हाइपोग्लाइसीमिया', 'निम्न रक्त शर्करा'], 'ru-RU': ['гипогликемия'],
+    },
+  },
+  {
+    id: 'fever', category: 'condition', forms: {
+      'en-US': ['fever'], 'es-ES': ['fiebre'], 'fr-FR': ['fièvre'], 'zh-CN': ['发烧', '发热'], 'vi-VN': ['sốt'],
+      'ar-SA': ['حمى', 'الحمى', 'سخونة'], 'hi-IN': ['बुखार'], 'ru-RU': ['лихорадка', 'температура', 'жар'],
+    },
+  },
+  {
+    id: 'allergy', category: 'condition', forms: {
+      'en-US': ['allergy', 'allergies'], 'es-ES': ['alergia', 'alergias'], 'fr-FR': ['allergie', 'allergies'],
+      'zh-CN': ['过敏'], 'vi-VN': ['dị ứng'], 'ar-SA': ['حساسية'], 'hi-IN': ['एलर्जी'], 'ru-RU': ['аллергия'],
+    },
+  },
+  {
+    id: 'asthma', category: 'condition', forms: {
+      'en-US': ['asthma'], 'es-ES': ['asma'], 'fr-FR': ['asthme'], 'zh-CN': ['哮喘'], 'vi-VN': ['hen suyễn', 'hen phế quản'],
+      'ar-SA': ['الربو', 'ربو'], 'hi-IN': ['दमा', 'अस्थमा'], 'ru-RU': ['астма'],
+    },
+  },
+  {
+    id: 'insulin', category: 'drug', forms: {
+      'en-US': ['insulin'], 'es-ES': ['insulina'], 'fr-FR': ['insuline'], 'zh-CN': ['胰岛素'], 'vi-VN': ['insulin'],
+      'ar-SA': ['الأنسولين', 'أنسولين'], 'hi-IN': ['इंसुलिन'], 'ru-RU': ['инсулин'],
+    },
+  },
+  {
+    id: 'antibiotic', category: 'drug', forms: {
+      'en-US': ['antibiotic', 'antibiotics'], 'es-ES': ['antibiótico', 'antibióticos'], 'fr-FR': ['antibiotique', 'antibiotiques'],
+      'zh-CN': ['抗生素'], 'vi-VN': ['thuốc kháng sinh', 'kháng sinh'], 'ar-SA': ['مضاد حيوي', 'مضادات حيوية'],
+      'hi-IN': ['एंटीबायोटिक'], 'ru-RU': ['антибиотик', 'антибиотики'],
+    },
+  },
+  {
+    id: 'ibuprofen', category: 'drug', forms: {
+      'en-US': ['ibuprofen'], 'es-ES': ['ibuprofeno'], 'fr-FR': ['ibuprofène'], 'zh-CN': ['布洛芬'], 'vi-VN': ['ibuprofen'],
+      'ar-SA': ['إيبوبروفين'], 'hi-IN': ['आइबुप्रोफेन'], 'ru-RU': ['ибупрофен'],
+    },
+  },
+  {
+    id: 'acetaminophen', category: 'drug', forms: {
+      'en-US': ['acetaminophen', 'paracetamol', 'Tylenol'], 'es-ES': ['paracetamol', 'acetaminofén'], 'fr-FR': ['paracétamol'],
+      'zh-CN': ['对乙酰氨基酚', '扑热息痛'], 'vi-VN': ['paracetamol'], 'ar-SA': ['باراسيتامول'], 'hi-IN': ['पैरासिटामोल'],
+      'ru-RU': ['парацетамол'],
+    },
+  },
+  {
+    id: 'metformin', category: 'drug', forms: {
+      'en-US': ['metformin'], 'es-ES': ['metformina'], 'fr-FR': ['metformine'], 'zh-CN': ['二甲双胍'], 'vi-VN': ['metformin'],
+      'ar-SA': ['ميتفورمين'], 'hi-IN': ['मेटफॉर्मिन'], 'ru-RU': ['метформин'],
+    },
+  },
+  {
+    id: 'dosage', category: 'drug', forms: {
+      'en-US': ['dosage', 'dose'], 'es-ES': ['dosis'], 'fr-FR': ['posologie', 'dose'], 'zh-CN': ['剂量'],
+      'vi-VN': ['liều lượng', 'liều'], 'ar-SA': ['جرعة', 'الجرعة'], 'hi-IN': ['खुराक'], 'ru-RU': ['доза', 'дозировка'],
+    },
+  },
+  {
+    id: 'blood-pressure', category: 'procedure', forms: {
+      'en-US': ['blood pressure'], 'es-ES': ['presión arterial'], 'fr-FR': ['tension artérielle', 'pression artérielle'],
+      'zh-CN': ['血压'], 'vi-VN': ['huyết áp'], 'ar-SA': ['ضغط الدم'], 'hi-IN': ['रक्तचाप', 'ब्लड प्रेशर'],
+      'ru-RU': ['артериальное давление', 'давление'],
+    },
+  },
+  {
+    id: 'blood-test', category: 'procedure', forms: {
+      'en-US': ['blood test'], 'es-ES': ['análisis de sangre'], 'fr-FR': ['prise de sang', 'analyse de sang'],
+      'zh-CN': ['验血', '血液检查'], 'vi-VN': ['xét nghiệm máu'], 'ar-SA': ['تحليل الدم', 'فحص الدم'],
+      'hi-IN': ['रक्त परीक्षण', 'खून की जांच'], 'ru-RU': ['анализ крови'],
+    },
+  },
+  {
+    id: 'x-ray', category: 'procedure', forms: {
+      'en-US': ['x-ray'], 'es-ES': ['radiografía'], 'fr-FR': ['radiographie'], 'zh-CN': ['X光', 'X射线'],
+      'vi-VN': ['chụp X-quang', 'X-quang'], 'ar-SA': ['أشعة سينية'], 'hi-IN': ['एक्स-रे'], 'ru-RU': ['рентген'],
+    },
+  },
+  {
+    id: 'surgery', category: 'procedure', forms: {
+      'en-US': ['surgery', 'operation'], 'es-ES': ['cirugía', 'operación'], 'fr-FR': ['chirurgie', 'opération'],
+      'zh-CN': ['手术'], 'vi-VN': ['phẫu thuật'], 'ar-SA': ['جراحة', 'عملية جراحية'], 'hi-IN': ['सर्जरी', 'ऑपरेशन'],
+      'ru-RU': ['операция', 'хирургия'],
+    },
+  },
+  {
+    id: 'heart', category: 'anatomy', forms: {
+      'en-US': ['heart'], 'es-ES': ['corazón'], 'fr-FR': ['cœur'], 'zh-CN': ['心脏'], 'vi-VN': ['tim'],
+      'ar-SA': ['القلب', 'قلب'], 'hi-IN': ['हृदय', 'दिल'], 'ru-RU': ['сердце'],
+    },
+  },
+  {
+    id: 'chest', category: 'anatomy', forms: {
+      'en-US': ['chest'], 'es-ES': ['pecho'], 'fr-FR': ['poitrine'], 'zh-CN': ['胸部', '胸口'], 'vi-VN': ['ngực'],
+      'ar-SA': ['الصدر', 'صدر'], 'hi-IN': ['छाती', 'सीना'], 'ru-RU': ['грудная клетка', 'грудь'],
+    },
+  },
+  {
+    id: 'stomach', category: 'anatomy', forms: {
+      'en-US': ['stomach', 'abdomen'], 'es-ES': ['estómago', 'abdomen'], 'fr-FR': ['estomac', 'ventre', 'abdomen'],
+      'zh-CN': ['胃', '腹部', '肚子'], 'vi-VN': ['dạ dày', 'bụng'], 'ar-SA': ['المعدة', 'معدة', 'البطن'],
+      'hi-IN': ['पेट'], 'ru-RU': ['желудок', 'живот'],
+    },
+  },
+  {
+    id: 'lungs', category: 'anatomy', forms: {
+      'en-US': ['lungs', 'lung'], 'es-ES': ['pulmones', 'pulmón'], 'fr-FR': ['poumons', 'poumon'], 'zh-CN': ['肺部', '肺'],
+      'vi-VN': ['phổi'], 'ar-SA': ['الرئتين', 'الرئة', 'رئة'], 'hi-IN': ['फेफड़े', 'फेफड़ा'], 'ru-RU': ['лёгкие', 'легкие', 'лёгкое'],
+    },
+  },
+];
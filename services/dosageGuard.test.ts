@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { LANGUAGES } from '../types';
+import { checkDosageIntegrity, extractClinicalFacts, normalizeNumerals } from './dosageGuard';
+
+// One correct rendering of the same instruction per language; every pair must pass
+const INSTRUCTION: Record<string, string> = {
+  'en-US': 'Take 500 mg twice a day for 7 days.',
+  'es-ES': 'Tome 500 mg dos veces al día durante 7 días.',
+  'fr-FR': 'Prenez 500 mg 2 fois par jour pendant 7 jours.',
+  'zh-CN': '每天两次，每次500毫克，连续7天。',
+  'vi-VN': 'Uống 500 mg 2 lần một ngày trong 7 ngày.',
+  'ar-SA': 'تناول ٥٠٠ ملغ مرتين يوميا لمدة ٧ أيام.',
+  'hi-IN': '७ दिन तक दिन में दो बार ५०० मिलीग्राम लें।',
+  'ru-RU': 'Принимайте 500 мг два раза в день в течение 7 дней.',
+};
+
+describe('extractClinicalFacts', () => {
+  it.each(LANGUAGES.map(l => l.code))('extracts dose, frequency and duration in %s', lang => {
+    const facts = extractClinicalFacts(INSTRUCTION[lang], lang);
+    expect(facts.doses).toEqual(['500 mg']);
+    expect(facts.frequencies).toEqual(['2/day']);
+    expect(facts.durations).toEqual(['7 d']);
+  });
+
+  it('reads every-N-hours frequencies', () => {
+    expect(extractClinicalFacts('Take it every 6 hours', 'en-US').frequencies).toEqual(['q6h']);
+    expect(extractClinicalFacts('Tómelo cada 6 horas', 'es-ES').frequencies).toEqual(['q6h']);
+    expect(extractClinicalFacts('Prenez-le toutes les 6 heures', 'fr-FR').frequencies).toEqual(['q6h']);
+    expect(extractClinicalFacts('每6小时服用一次', 'zh-CN').frequencies).toEqual(['q6h']);
+    expect(extractClinicalFacts('Uống mỗi 6 giờ', 'vi-VN').frequencies).toEqual(['q6h']);
+    expect(extractClinicalFacts('تناوله كل 6 ساعات', 'ar-SA').frequencies).toEqual(['q6h']);
+    expect(extractClinicalFacts('हर 6 घंटे में लें', 'hi-IN').frequencies).toEqual(['q6h']);
+    expect(extractClinicalFacts('Принимайте каждые 6 часов', 'ru-RU').frequencies).toEqual(['q6h']);
+  });
+
+  it('reads abbreviations in any language', () => {
+    expect(extractClinicalFacts('Amoxicilina 250 mg TID', 'es-ES').frequencies).toEqual(['3/day']);
+    expect(extractClinicalFacts('Ibuprofen 400 mg q8h', 'en-US').frequencies).toEqual(['q8h']);
+  });
+
+  it('normalizes unit spellings to one canonical unit', () => {
+    expect(extractClinicalFacts('500 milligrams', 'en-US').doses).toEqual(['500 mg']);
+    expect(extractClinicalFacts('500 miligramos', 'es-ES').doses).toEqual(['500 mg']);
+    expect(extractClinicalFacts('500 milligrammes', 'fr-FR').doses).toEqual(['500 mg']);
+    expect(extractClinicalFacts('500毫克', 'zh-CN').doses).toEqual(['500 mg']);
+    expect(extractClinicalFacts('500 miligam', 'vi-VN').doses).toEqual(['500 mg']);
+    expect(extractClinicalFacts('500 ملغ', 'ar-SA').doses).toEqual(['500 mg']);
+    expect(extractClinicalFacts('500 मिलीग्राम', 'hi-IN').doses).toEqual(['500 mg']);
+    expect(extractClinicalFacts('500 миллиграммов', 'ru-RU').doses).toEqual(['500 mg']);
+    expect(extractClinicalFacts('100 µg or 100 mcg', 'en-US').doses).toEqual(['100 mcg', '100 mcg']);
+    expect(extractClinicalFacts('5 ml', 'en-US').doses).toEqual(['5 mL']);
+    expect(extractClinicalFacts('10 единиц', 'ru-RU').doses).toEqual(['10 units']);
+  });
+
+  it('does not read a unit inside a longer word', () => {
+    expect(extractClinicalFacts('2 grapes', 'en-US').doses).toEqual([]);
+  });
+});
+
+describe('normalizeNumerals', () => {
+  it('maps Arabic-Indic, Devanagari and full-width digits to ASCII', () => {
+    expect(normalizeNumerals('٥٠٠', 'ar-SA')).toBe('500');
+    expect(normalizeNumerals('५००', 'hi-IN')).toBe('500');
+    expect(normalizeNumerals('５００', 'zh-CN')).toBe('500');
+    expect(normalizeNumerals('٢٫٥', 'ar-SA')).toBe('2.5');
+  });
+
+  it('reads a decimal comma in es, fr, vi and ru', () => {
+    for (const lang of ['es-ES', 'fr-FR', 'vi-VN', 'ru-RU']) {
+      expect(normalizeNumerals('2,5', lang)).toBe('2.5');
+      expect(normalizeNumerals('1.000', lang)).toBe('1000');
+    }
+    // French groups thousands with a (narrow) no-break space; a plain space separates two numbers
+    expect(normalizeNumerals('1\u202f000', 'fr-FR')).toBe('1000');
+    expect(normalizeNumerals('1\u00a0000', 'fr-FR')).toBe('1000');
+  });
+
+  it('reads a decimal point and thousands comma elsewhere', () => {
+    for (const lang of ['en-US', 'zh-CN', 'hi-IN', 'ar-SA']) {
+      expect(normalizeNumerals('2.5', lang)).toBe('2.5');
+      expect(normalizeNumerals('1,000', lang)).toBe('1000');
+    }
+  });
+});
+
+describe('checkDosageIntegrity', () => {
+  const codes = LANGUAGES.map(l => l.code);
+  const pairs = codes.flatMap(source => codes.filter(target => target !== source).map(target => [source, target]));
+
+  it.each(pairs)('accepts a faithful translation from %s to %s', (source, target) => {
+    const report = checkDosageIntegrity(INSTRUCTION[source], source, INSTRUCTION[target], target);
+    expect(report).toEqual({ ok: true, discrepancies: [] });
+  });
+
+  it('accepts a decimal comma translation of a decimal point', () => {
+    expect(checkDosageIntegrity('Take 2.5 mL', 'en-US', 'Tome 2,5 ml', 'es-ES').ok).toBe(true);
+    expect(checkDosageIntegrity('Take 2.5 mL', 'en-US', 'Принимайте 2,5 мл', 'ru-RU').ok).toBe(true);
+  });
+
+  it('accepts a number spelled out on the other side', () => {
+    expect(checkDosageIntegrity('Take 2 tablets', 'en-US', 'Tome dos tabletas', 'es-ES').ok).toBe(true);
+  });
+
+  it('flags a dose that changed', () => {
+    const report = checkDosageIntegrity('Take 500 mg', 'en-US', 'Tome 50 mg', 'es-ES');
+    expect(report.ok).toBe(false);
+    expect(report.discrepancies).toContain('Number missing from translation: 500');
+    expect(report.discrepancies).toContain('Number not in original: 50');
+    expect(report.discrepancies).toContain('Dose missing or changed: 500 mg');
+  });
+
+  it('flags a dropped number in every language', () => {
+    for (const lang of codes.filter(code => code !== 'en-US')) {
+      const withoutDuration = INSTRUCTION[lang].replace(/7|٧|७/, '');
+      const report = checkDosageIntegrity(INSTRUCTION['en-US'], 'en-US', withoutDuration, lang);
+      expect(report.ok, lang).toBe(false);
+      expect(report.discrepancies, lang).toContain('Number missing from translation: 7');
+    }
+  });
+
+  it('flags a unit that changed', () => {
+    const report = checkDosageIntegrity('Inject 100 mcg', 'en-US', 'Inyecte 100 mg', 'es-ES');
+    expect(report.discrepancies).toEqual(['Dose missing or changed: 100 mcg', 'Dose not in original: 100 mg']);
+  });
+
+  it('flags a changed frequency', () => {
+    const report = checkDosageIntegrity('Take it twice a day', 'en-US', 'Prenez-le 3 fois par jour', 'fr-FR');
+    expect(report.discrepancies).toContain('Frequency missing or changed: 2/day');
+    expect(report.discrepancies).toContain('Frequency not in original: 3/day');
+  });
+
+  it('flags a changed duration', () => {
+    const report = checkDosageIntegrity('Take it for 10 days', 'en-US', 'Принимайте 10 недель', 'ru-RU');
+    expect(report.discrepancies).toEqual(['Duration missing or changed: 10 d', 'Duration not in original: 10 w']);
+  });
+});
@@ -0,0 +1,245 @@
+// Deterministic check that numbers, doses, frequencies and durations survive translation unchanged.
+// Everything is normalized to language-independent facts (e.g. "500 mg", "2/day", "q6h", "7 d")
+// and compared as multisets between the original and the translation.
+
+import { IntegrityReport } from '../types';
+import { missingFrom } from './multiset';
+
+export interface ClinicalFacts {
+  numbers: number[];
+  doses: string[];
+  frequencies: string[];
+  durations: string[];
+}
+
+type Rule = { pattern: RegExp; fact: (m: RegExpMatchArray, lang: string) => string | null };
+
+const baseCode = (code: string) => code.split('-')[0].toLowerCase();
+
+// Languages whose decimal separator is a comma and thousands separator a dot or space
+const DECIMAL_COMMA = new Set(['es', 'fr', 'vi', 'ru']);
+
+// Spelled-out numbers. Only used to confirm a digit on the other side, never as a fact on their own,
+// because words like "un"/"una"/"one" are usually articles rather than quantities.
+const NUMBER_WORDS: Record<string, Record<string, number>> = {
+  en: { once: 1, one: 1, twice: 2, two: 2, three: 3, thrice: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, half: 0.5 },
+  es: { un: 1, uno: 1, una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10, once: 11, doce: 12, medio: 0.5, media: 0.5 },
+  fr: { un: 1, une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5, six: 6, sept: 7, huit: 8, neuf: 9, dix: 10, onze: 11, douze: 12, demi: 0.5, demie: 0.5 },
+  vi: { 'một': 1, 'hai': 2, 'ba': 3, 'bốn': 4, 'tư': 4, 'năm': 5, 'sáu': 6, 'bảy': 7, 'tám': 8, 'chín': 9, 'mười': 10, 'nửa': 0.5, 'rưỡi': 0.5 },
+  ru: { 'один': 1, 'одна': 1, 'одну': 1, 'одного': 1, 'раз': 1, 'два': 2, 'две': 2, 'дважды': 2, 'три': 3, 'трижды': 3, 'четыре': 4, 'пять': 5, 'шесть': 6, 'семь': 7, 'восемь': 8, 'девять': 9, 'десять': 10, 'одиннадцать': 11, 'двенадцать': 12, 'половина': 0.5, 'половину': 0.5 },
+  ar: { 'واحد': 1, 'واحدة': 1, 'مرة': 1, 'اثنان': 2, 'اثنين': 2, 'مرتين': 2, 'مرتان': 2, 'ثلاث': 3, 'ثلاثة': 3, 'أربع': 4, 'أربعة': 4, 'خمس': 5, 'خمسة': 5, 'ست': 6, 'ستة': 6, 'سبع': 7, 'سبعة': 7, 'ثمان': 8, 'ثمانية': 8, 'تسع': 9, 'تسعة': 9, 'عشر': 10, 'عشرة': 10, 'نصف': 0.5 },
+  hi: { 'एक': 1, 'दो': 2, 'तीन': 3, 'चार': 4, 'पांच': 5, 'पाँच': 5, 'छह': 6, 'छः': 6, 'सात': 7, 'आठ': 8, 'नौ': 9, 'दस': 10, 'ग्यारह': 11, 'बारह': 12, 'आधा': 0.5, 'आधी': 0.5 },
+  zh: { '一': 1, '两': 2, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9, '十': 10, '十一': 11, '十二': 12, '半': 0.5 },
+};
+
+// Number token: digits, or a spelled-out number in the text's language
+// Letters plus combining marks, so Devanagari words with vowel signs stay whole
+const NUM = String.raw`(\d+(?:\.\d+)?|[\p{L}\p{M}]+)`;
+const HAN_NUM = String.raw`(\d+(?:\.\d+)?|十[一二]?|[一两二三四五六七八九十半])`;
+
+const numberValue = (token: string, lang: string): number | null => {
+  if (/^\d/.test(token)) return Number(token);
+  const words = NUMBER_WORDS[baseCode(lang)] ?? {};
+  return words[token.toLocaleLowerCase()] ?? null;
+};
+
+// Map localized digits and separators onto ASCII digits with "." as the decimal point
+export const normalizeNumerals = (text: string, lang: string): string => {
+  let out = text
+    .replace(/[٠-٩]/g, d => String(d.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, d => String(d.charCodeAt(0) - 0x06F0))
+    .replace(/[०-९]/g, d => String(d.charCodeAt(0) - 0x0966))
+    .replace(/[０-９]/g, d => String(d.charCodeAt(0) - 0xFF10))
+    .replace(/(\d)٫(\d)/g, '$1.$2') // Arabic decimal separator
+    .replace(/(\d)٬(\d)/g, '$1$2'); // Arabic thousands separator
+
+  if (DECIMAL_COMMA.has(baseCode(lang))) {
+    out = out
+      .replace(/\b(\d{1,3})(?:[.\u00a0\u202f](\d{3}))+\b/g, m => m.replace(/[.\u00a0\u202f]/g, ''))
+      .replace(/(\d),(\d)/g, '$1.$2');
+  } else {
+    out = out
+      .replace(/\b(\d{1,3})(?:,(\d{3}))+\b/g, m => m.replace(/,/g, ''))
+      .replace(/(\d),(\d)/g, '$1.$2');
+  }
+  return out;
+};
+
+// Canonical unit → surface forms across the supported languages. Order matters: longer/more specific first.
+const UNITS: [string, string[]][] = [
+  ['mcg', ['mcg', 'µg', 'μg', 'micrograms?', 'microgramos?', 'microgrammes?', 'microgam', '微克', 'мкг', 'микрограмм\\p{L}*', 'ميكروغرام', 'ميكروجرام', 'माइक्रोग्राम']],
+  ['mg', ['mg', 'milligrams?', 'miligramos?', 'milligrammes?', 'miligam', '毫克', 'мг', 'миллиграмм\\p{L}*', 'ملغم?', 'ملجم', 'مغ', 'मिलीग्राम', 'मि\\.ग्रा\\.?']],
+  ['IU', ['IU', 'UI', 'international units?', 'unidades internacionales', 'unités internationales', 'đơn vị quốc tế', '国际单位', 'МЕ', 'وحدة دولية', 'وحدات دولية', 'अंतर्राष्ट्रीय इकाई']],
+  ['mL', ['ml', 'millilit(?:er|re)s?', 'mililitros?', 'millilitres?', 'mililít', '毫升', 'мл', 'миллилитр\\p{L}*', 'مل', 'ملليلتر', 'مليلتر', 'मिलीलीटर', 'मिली']],
+  ['units', ['units?', 'unidad(?:es)?', 'unités?', 'đơn vị', '单位', 'ед\\.?', 'единиц\\p{L}*', 'وحدات', 'وحدة', 'इकाई', 'यूनिट']],
+  ['g', ['g', 'grams?', 'gramos?', 'grammes?', 'gam', '克', 'г', 'грамм\\p{L}*', 'غرام', 'جرام', 'ग्राम']],
+];
+
+// Han surface forms need no word-boundary check; everything else must not run into another letter
+const unitAlternative = (form: string) => (/\p{Script=Han}$/u.test(form) ? form : `${form}(?![\\p{L}\\p{M}])`);
+
+const UNIT_PATTERNS = UNITS.map(([unit, forms]) =>
+  [unit, new RegExp(`^\\s?(?:${forms.map(unitAlternative).join('|')})`, 'iu')] as const
+);
+
+const unitAt = (text: string): string | null => {
+  for (const [unit, pattern] of UNIT_PATTERNS) {
+    if (pattern.test(text)) return unit;
+  }
+  return null;
+};
+
+const times = (n: number | null) => (n === null ? null : `${n}/day`);
+const every = (n: number | null) => (n === null ? null : `q${n}h`);
+
+// Abbreviations are used in every language
+const SHARED_FREQUENCIES: Rule[] = [
+  { pattern: /\b(?:q\.?d|o\.?d)\b\.?/giu, fact: () => '1/day' },
+  { pattern: /\bb\.?i\.?d\b\.?/giu, fact: () => '2/day' },
+  { pattern: /\bt\.?i\.?d\b\.?/giu, fact: () => '3/day' },
+  { pattern: /\bq\.?i\.?d\b\.?/giu, fact: () => '4/day' },
+  { pattern: /\bq\s?(\d+(?:\.\d+)?)\s?h(?:rs?|ours?)?\b/giu, fact: m => `q${Number(m[1])}h` },
+];
+
+const FREQUENCIES: Record<string, Rule[]> = {
+  en: [
+    { pattern: new RegExp(`\\b(once|twice|thrice)\\s+(?:a|per|each|every)?\\s*day\\b|\\b(once|twice|thrice)\\s+daily\\b`, 'giu'), fact: (m, l) => times(numberValue(m[1] ?? m[2], l)) },
+    { pattern: new RegExp(`\\b${NUM}\\s+times\\s+(?:a|per|each|every)?\\s*day\\b|\\b${NUM}\\s+times\\s+daily\\b`, 'giu'), fact: (m, l) => times(numberValue(m[1] ?? m[2], l)) },
+    { pattern: new RegExp(`\\bevery\\s+${NUM}\\s+hours?\\b`, 'giu'), fact: (m, l) => every(numberValue(m[1], l)) },
+    { pattern: /\bevery\s+hour\b/giu, fact: () => 'q1h' },
+  ],
+  es: [
+    { pattern: new RegExp(`\\b(?:${NUM}\\s+veces|(una)\\s+vez)\\s+(?:al|por|cada)\\s+día\\b`, 'giu'), fact: (m, l) => times(numberValue(m[1] ?? m[2], l)) },
+    { pattern: new RegExp(`\\bcada\\s+${NUM}\\s+horas?\\b`, 'giu'), fact: (m, l) => every(numberValue(m[1], l)) },
+  ],
+  fr: [
+    { pattern: new RegExp(`\\b${NUM}\\s+fois\\s+par\\s+jour\\b`, 'giu'), fact: (m, l) => times(numberValue(m[1], l)) },
+    { pattern: new RegExp(`\\btoutes\\s+les\\s+${NUM}\\s+heures\\b`, 'giu'), fact: (m, l) => every(numberValue(m[1], l)) },
+  ],
+  vi: [
+    { pattern: new RegExp(`${NUM}\\s+lần\\s+(?:một|mỗi|trong|/)?\\s*ngày`, 'giu'), fact: (m, l) => times(numberValue(m[1], l)) },
+    { pattern: new RegExp(`ngày\\s+${NUM}\\s+lần`, 'giu'), fact: (m, l) => times(numberValue(m[1], l)) },
+    { pattern: new RegExp(`(?:mỗi|cứ)\\s+${NUM}\\s+(?:giờ|tiếng)`, 'giu'), fact: (m, l) => every(numberValue(m[1], l)) },
+  ],
+  ru: [
+    { pattern: new RegExp(`${NUM}\\s+раз(?:а)?\\s+в\\s+(?:день|сутки)`, 'giu'), fact: (m, l) => times(numberValue(m[1], l)) },
+    { pattern: /(?<!\p{L})(раз|дважды|трижды)\s+в\s+(?:день|сутки)/giu, fact: (m, l) => times(numberValue(m[1], l)) },
+    { pattern: new RegExp(`каждые\\s+${NUM}\\s+час(?:а|ов)?`, 'giu'), fact: (m, l) => every(numberValue(m[1], l)) },
+  ],
+  ar: [
+    { pattern: /(مرة واحدة|مرة|مرتين|مرتان)\s+(?:يوميا|يومياً|في اليوم)/gu, fact: m => times(m[1] === 'مرتين' || m[1] === 'مرتان' ? 2 : 1) },
+    { pattern: new RegExp(`${NUM}\\s+مرات\\s+(?:يوميا|يومياً|في اليوم)`, 'gu'), fact: (m, l) => times(numberValue(m[1], l)) },
+    { pattern: new RegExp(`كل\\s+${NUM}\\s+(?:ساعات|ساعة)`, 'gu'), fact: (m, l) => every(numberValue(m[1], l)) },
+  ],
+  hi: [
+    { pattern: new RegExp(`दिन\\s+में\\s+${NUM}\\s+बार`, 'gu'), fact: (m, l) => times(numberValue(m[1], l)) },
+    { pattern: new RegExp(`हर\\s+${NUM}\\s+घंटे`, 'gu'), fact: (m, l) => every(numberValue(m[1], l)) },
+  ],
+  zh: [
+    { pattern: new RegExp(`(?:每天|每日|一天|一日)\\s*${HAN_NUM}\\s*次`, 'gu'), fact: (m, l) => times(numberValue(m[1], l)) },
+    { pattern: new RegExp(`每\\s*${HAN_NUM}\\s*(?:个)?小时`, 'gu'), fact: (m, l) => every(numberValue(m[1], l)) },
+  ],
+};
+
+const DURATION_WORDS: Record<string, [string, string][]> = {
+  en: [['d', 'days?'], ['w', 'weeks?'], ['mo', 'months?']],
+  es: [['d', 'días?'], ['w', 'semanas?'], ['mo', 'mes(?:es)?']],
+  fr: [['d', 'jours?'], ['w', 'semaines?'], ['mo', 'mois']],
+  vi: [['d', 'ngày'], ['w', 'tuần'], ['mo', 'tháng']],
+  ru: [['d', 'д(?:ень|ня|ней)|сут(?:ки|ок)'], ['w', 'недел(?:я|и|ь|ю)'], ['mo', 'месяц(?:а|ев)?']],
+  ar: [['d', 'أيام|يوما|يومًا|يوم'], ['w', 'أسابيع|أسبوع'], ['mo', 'أشهر|شهور|شهر']],
+  hi: [['d', 'दिन(?:ों)?'], ['w', 'सप्ताह|हफ़्ते|हफ्ते'], ['mo', 'महीने|महीना']],
+  zh: [['d', '天|日'], ['w', '周|星期|个星期|礼拜'], ['mo', '个月']],
+};
+
+const durationRules = (lang: string): Rule[] => {
+  const base = baseCode(lang);
+  // Chinese has no spaces, so only a preceding digit can make the match start mid-number
+  const [num, before] = base === 'zh' ? [HAN_NUM, '(?<![\\d.])'] : [NUM, '(?<![\\p{L}\\p{M}\\d.])'];
+  return (DURATION_WORDS[base] ?? []).map(([unit, words]) => ({
+    pattern: new RegExp(`${before}${num}\\s*(?:${words})(?![\\p{L}\\p{M}])`, 'giu'),
+    fact: (m, l) => {
+      const n = numberValue(m[1], l);
+      return n === null ? null : `${n} ${unit}`;
+    },
+  }));
+};
+
+// Apply rules in order, blanking each matched span so later rules cannot count it twice
+const consume = (text: string, rules: Rule[], lang: string): { facts: string[]; rest: string } => {
+  const facts: string[] = [];
+  let rest = text;
+  for (const { pattern, fact } of rules) {
+    rest = rest.replace(pattern, (...args) => {
+      const match = args.slice(0, -2) as unknown as RegExpMatchArray;
+      const value = fact(match, lang);
+      if (value === null) return match[0];
+      facts.push(value);
+      return ' '.repeat(match[0].length);
+    });
+  }
+  return { facts, rest };
+};
+
+export const extractClinicalFacts = (text: string, lang: string): ClinicalFacts => {
+  const normalized = normalizeNumerals(text, lang);
+  const numbers = Array.from(normalized.matchAll(/\d+(?:\.\d+)?/g), m => Number(m[0]));
+
+  const doses: string[] = [];
+  for (const m of normalized.matchAll(/\d+(?:\.\d+)?/g)) {
+    const unit = unitAt(normalized.slice(m.index! + m[0].length));
+    if (unit) doses.push(`${Number(m[0])} ${unit}`);
+  }
+
+  const base = baseCode(lang);
+  const freq = consume(normalized, [...SHARED_FREQUENCIES, ...(FREQUENCIES[base] ?? [])], lang);
+  const duration = consume(freq.rest, durationRules(lang), lang);
+
+  return { numbers, doses, frequencies: freq.facts, durations: duration.facts };
+};
+
+// Values spelled out as words; lets "2 tablets" match "dos tabletas"
+const spelledNumbers = (text: string, lang: string): number[] => {
+  const words = NUMBER_WORDS[baseCode(lang)] ?? {};
+  const tokens = baseCode(lang) === 'zh'
+    ? Array.from(text.matchAll(/十[一二]?|[一两二三四五六七八九十半]/gu), m => m[0])
+    : text.toLocaleLowerCase().split(/[^\p{L}\p{M}]+/u);
+  return tokens.filter(t => t in words).map(t => words[t]);
+};
+
+const describe = (label: string, items: (string | number)[]) => `${label}: ${items.join(', ')}`;
+
+export const checkDosageIntegrity = (
+  originalText: string,
+  sourceLang: string,
+  translatedText: string,
+  targetLang: string
+): IntegrityReport => {
+  const source = extractClinicalFacts(originalText, sourceLang);
+  const target = extractClinicalFacts(translatedText, targetLang);
+  const sourceSpelled = spelledNumbers(originalText, sourceLang);
+  const targetSpelled = spelledNumbers(translatedText, targetLang);
+  const discrepancies: string[] = [];
+
+  const droppedNumbers = missingFrom(source.numbers, [...target.numbers, ...targetSpelled]);
+  const addedNumbers = missingFrom(target.numbers, [...source.numbers, ...sourceSpelled]);
+  if (droppedNumbers.length) discrepancies.push(describe('Number missing from translation', droppedNumbers));
+  if (addedNumbers.length) discrepancies.push(describe('Number not in original', addedNumbers));
+
+  const droppedDoses = missingFrom(source.doses, target.doses);
+  const addedDoses = missingFrom(target.doses, source.doses);
+  if (droppedDoses.length) discrepancies.push(describe('Dose missing or changed', droppedDoses));
+  if (addedDoses.length) discrepancies.push(describe('Dose not in original', addedDoses));
+
+  const droppedFrequencies = missingFrom(source.frequencies, target.frequencies);
+  const addedFrequencies = missingFrom(target.frequencies, source.frequencies);
+  if (droppedFrequencies.length) discrepancies.push(describe('Frequency missing or changed', droppedFrequencies));
+  if (addedFrequencies.length) discrepancies.push(describe('Frequency not in original', addedFrequencies));
+
+  const droppedDurations = missingFrom(source.durations, target.durations);
+  const addedDurations = missingFrom(target.durations, source.durations);
+  if (droppedDurations.length) discrepancies.push(describe('Duration missing or changed', droppedDurations));
+  if (addedDurations.length) discrepancies.push(describe('Duration not in original', addedDurations));
+
+  return { ok: discrepancies.length === 0, discrepancies };
+};
@@ -0,0 +1,286 @@
+import { EDITOR_ROLES, EncounterSession, EntryRevision, LANGUAGES, TranscriptEntry } from '../types';
+import { toBase64 } from './vaultCrypto';
+import { TEACH_BACK_LABELS } from './teachBack';
+import { HANDOUT_TITLES, SUMMARY_SECTIONS, sectionTitle, VisitSummary } from './visitSummary';
+
+export type ExportFormat = 'print' | 'html' | 'text' | 'csv' | 'fhir';
+
+const getLangName = (code: string) => LANGUAGES.find(l => l.code === code)?.name || code;
+const speakerLabel = (speaker: TranscriptEntry['speaker']) =>
+  speaker === 'provider' ? 'Healthcare Provider' : 'Patient';
+const sessionTitle = (session: EncounterSession) =>
+  session.label || `Session ${session.startedAt.toLocaleString()}`;
+const translationText = (entry: TranscriptEntry) =>
+  entry.status === 'translated' ? entry.translatedText : `[Translation ${entry.status}]`;
+
+const translationTitle = (entry: TranscriptEntry) =>
+  entry.phrasebookId ? 'Phrasebook translation' : entry.manualTranslation ? 'Staff translation' : 'AI-assisted translation';
+
+// Marks translations that did not come from the model
+const translationTag = (entry: TranscriptEntry) =>
+  entry.phrasebookId || entry.manualTranslation ? translationTitle(entry) : '';
+
+const REVISION_REASONS: Record<EntryRevision['reason'], string> = {
+  correction: 'original corrected',
+  override: 'translation overridden',
+  retranslation: 'retranslated',
+};
+
+const editorLabel = (revision: EntryRevision) =>
+  `${revision.editedBy || 'unnamed'} (${EDITOR_ROLES[revision.role]})`;
+
+const revisionLine = (revision: EntryRevision) =>
+  `${revision.editedAt.toLocaleString()}: ${REVISION_REASONS[revision.reason]} by ${editorLabel(revision)}; previously "${revision.previousValue}"`;
+
+const teachBackResult = (entry: TranscriptEntry) => {
+  const teachBack = entry.teachBack;
+  if (teachBack?.status !== 'done' || !teachBack.outcome) return 'Not checked';
+  return `${TEACH_BACK_LABELS[teachBack.outcome]}${teachBack.gaps?.length ? ` (gaps: ${teachBack.gaps.join('; ')})` : ''}`;
+};
+
+const keyInstructions = (session: EncounterSession) => session.transcripts.filter(entry => entry.keyInstruction);
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[c]!);
+
+const escapeCsv = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const fileStem = (session: EncounterSession) =>
+  `healthtrans-${session.startedAt.toISOString().slice(0, 16).replace(/[:T]/g, '-')}`;
+
+export function buildTextTranscript(session: EncounterSession): string {
+  const lines = [
+    sessionTitle(session),
+    `Languages: ${getLangName(session.sourceLang)} ⇄ ${getLangName(session.targetLang)}`,
+    `Started: ${session.startedAt.toLocaleString()}`,
+    ...(session.endedAt ? [`Ended: ${session.endedAt.toLocaleString()}`] : []),
+    '',
+  ];
+  for (const entry of session.transcripts) {
+    lines.push(`[${entry.timestamp.toLocaleTimeString()}] ${speakerLabel(entry.speaker)}`);
+    lines.push(`  ${getLangName(entry.sourceLang)}: ${entry.originalText}`);
+    lines.push(`  ${getLangName(entry.targetLang)}: ${translationText(entry)}${translationTag(entry) ? ` (${translationTag(entry).toLowerCase()})` : ''}`);
+    for (const revision of entry.revisions ?? []) lines.push(`  Edited ${revisionLine(revision)}`);
+    if (entry.keyInstruction) lines.push(`  Key instruction, teach-back: ${teachBackResult(entry)}`);
+    lines.push('');
+  }
+  const instructions = keyInstructions(session);
+  if (instructions.length) {
+    lines.push('Teach-back summary');
+    for (const entry of instructions) lines.push(`  - ${entry.originalText}: ${teachBackResult(entry)}`);
+  }
+  return lines.join('\n');
+}
+
+export function buildCsv(session: EncounterSession): string {
+  const header = ['timestamp', 'speaker', 'source_lang', 'original', 'target_lang', 'translation', 'status', 'translated_by', 'revisions', 'key_instruction', 'teach_back'];
+  const rows = session.transcripts.map(entry => [
+    entry.timestamp.toISOString(),
+    entry.speaker,
+    entry.sourceLang,
+    entry.originalText,
+    entry.targetLang,
+    entry.status === 'translated' ? entry.translatedText : '',
+    entry.status,
+    entry.phrasebookId ? 'phrasebook' : entry.manualTranslation ? 'staff' : 'ai',
+    entry.revisions?.length ? JSON.stringify(entry.revisions) : '',
+    entry.keyInstruction ? 'yes' : '',
+    entry.keyInstruction ? teachBackResult(entry) : '',
+  ]);
+  return [header, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n');
+}
+
+// Self-contained bilingual report; printing it from the browser produces the PDF
+export function buildHtmlReport(session: EncounterSession): string {
+  const rows = session.transcripts.map(entry => `
+      <tr>
+        <td class="time">${escapeHtml(entry.timestamp.toLocaleTimeString())}</td>
+        <td>${escapeHtml(speakerLabel(entry.speaker))}</td>
+        <td dir="auto" lang="${entry.sourceLang}">${escapeHtml(entry.originalText)}</td>
+        <td dir="auto" lang="${entry.targetLang}">${escapeHtml(translationText(entry))}${translationTag(entry) ? ` <span class="tag">${translationTag(entry)}</span>` : ''}</td>
+      </tr>${entry.revisions?.length ? `
+      <tr class="revisions">
+        <td></td>
+        <td colspan="3"><ul>${entry.revisions.map(r => `<li dir="auto">Edited ${escapeHtml(revisionLine(r))}</li>`).join('')}</ul></td>
+      </tr>` : ''}${entry.keyInstruction ? `
+      <tr class="revisions">
+        <td></td>
+        <td colspan="3">Key instruction, teach-back: ${escapeHtml(teachBackResult(entry))}</td>
+      </tr>` : ''}`).join('');
+
+  const instructions = keyInstructions(session);
+  const teachBackSummary = instructions.length ? `
+  <h2>Teach-back summary</h2>
+  <ul>${instructions.map(entry => `<li><span dir="auto">${escapeHtml(entry.originalText)}</span>: ${escapeHtml(teachBackResult(entry))}</li>`).join('')}</ul>` : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(sessionTitle(session))}</title>
+<style>
+  body { font-family: 'Inter', Arial, sans-serif; color: #0f172a; margin: 32px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .meta { color: #475569; font-size: 13px; margin-bottom: 20px; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; }
+  th, td { border: 1px solid #cbd5e1; padding: 8px; text-align: start; vertical-align: top; }
+  th { background: #f1f5f9; }
+  .time { white-space: nowrap; font-variant-numeric: tabular-nums; }
+  .note { margin-top: 20px; color: #64748b; font-size: 11px; }
+  h2 { font-size: 16px; margin: 24px 0 8px; }
+  .tag { color: #6d28d9; font-size: 11px; font-weight: 600; }
+  .revisions td { color: #475569; font-size: 11px; border-top: 0; }
+  .revisions ul { margin: 0; padding-inline-start: 16px; }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(sessionTitle(session))}</h1>
+  <div class="meta">
+    ${escapeHtml(getLangName(session.sourceLang))} ⇄ ${escapeHtml(getLangName(session.targetLang))} •
+    Started ${escapeHtml(session.startedAt.toLocaleString())}${session.endedAt ? ` • Ended ${escapeHtml(session.endedAt.toLocaleString())}` : ''}
+  </div>
+  <table>
+    <thead><tr><th>Time</th><th>Speaker</th><th>Original</th><th>AI-Assisted Translation</th></tr></thead>
+    <tbody>${rows}
+    </tbody>
+  </table>${teachBackSummary}
+  <p class="note">Generated by HealthTrans. AI-assisted interpretation; does not replace professional medical judgment.</p>
+</body>
+</html>`;
+}
+
+// Patient handout: large print, patient's language first with the provider's language beneath.
+// Items that failed verification are left off; the summary panel lists them for review.
+export function buildPatientHandout(summary: VisitSummary): string {
+  const { sourceLang, targetLang } = summary;
+  const sections = SUMMARY_SECTIONS.map(section => {
+    const items = summary.items.filter(item => item.section === section && item.integrity.ok);
+    if (!items.length) return '';
+    return `
+  <section>
+    <h2 dir="auto" lang="${targetLang}">${escapeHtml(sectionTitle(targetLang, section))}</h2>
+    <p class="secondary heading" dir="auto" lang="${sourceLang}">${escapeHtml(sectionTitle(sourceLang, section))}</p>
+    <ul>${items.map(item => `
+      <li>
+        <p dir="auto" lang="${targetLang}">${escapeHtml(item.translatedText)}</p>
+        <p class="secondary" dir="auto" lang="${sourceLang}">${escapeHtml(item.text)}</p>
+      </li>`).join('')}
+    </ul>
+  </section>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="${targetLang}">
+<head>
+<meta charset="UTF-8" />
+<title>${escapeHtml(HANDOUT_TITLES[targetLang] ?? HANDOUT_TITLES['en-US'])}</title>
+<style>
+  body { font-family: 'Inter', Arial, sans-serif; color: #0f172a; margin: 32px; font-size: 22px; line-height: 1.5; }
+  h1 { font-size: 32px; margin: 0 0 4px; }
+  h2 { font-size: 26px; margin: 0; }
+  section { margin-top: 28px; padding-top: 12px; border-top: 2px solid #cbd5e1; break-inside: avoid; }
+  ul { margin: 8px 0 0; padding-inline-start: 28px; }
+  li { margin-bottom: 14px; }
+  p { margin: 0; }
+  .secondary { color: #475569; font-size: 17px; }
+  .heading { margin-bottom: 4px; }
+  .meta { color: #475569; font-size: 15px; }
+  .note { margin-top: 32px; color: #64748b; font-size: 13px; }
+</style>
+</head>
+<body>
+  <h1 dir="auto" lang="${targetLang}">${escapeHtml(HANDOUT_TITLES[targetLang] ?? HANDOUT_TITLES['en-US'])}</h1>
+  <p class="secondary" dir="auto" lang="${sourceLang}">${escapeHtml(HANDOUT_TITLES[sourceLang] ?? HANDOUT_TITLES['en-US'])}</p>
+  <p class="meta">${escapeHtml(summary.generatedAt.toLocaleDateString())}</p>${sections}
+  <p class="note">Generated by HealthTrans from an AI-assisted interpretation. Ask your care team if anything is unclear.</p>
+</body>
+</html>`;
+}
+
+const textAttachment = (text: string, language: string, title: string) => ({
+  contentType: 'text/plain; charset=utf-8',
+  language,
+  title,
+  data: toBase64(new TextEncoder().encode(text)),
+});
+
+// FHIR R4 collection Bundle with one Communication per interpreted utterance
+export function buildFhirBundle(session: EncounterSession) {
+  const entries = session.transcripts
+    .filter(entry => entry.status === 'translated')
+    .map(entry => ({
+      fullUrl: `urn:uuid:${entry.id}`,
+      resource: {
+        resourceType: 'Communication',
+        id: entry.id,
+        status: 'completed',
+        language: entry.sourceLang,
+        sent: entry.timestamp.toISOString(),
+        sender: { display: speakerLabel(entry.speaker) },
+        recipient: [{ display: speakerLabel(entry.speaker === 'provider' ? 'patient' : 'provider') }],
+        payload: [
+          { contentAttachment: textAttachment(entry.originalText, entry.sourceLang, 'Original utterance') },
+          { contentAttachment: textAttachment(entry.translatedText, entry.targetLang, translationTitle(entry)) },
+        ],
+        note: [
+          { text: `Interpreted ${entry.sourceLang} → ${entry.targetLang} by HealthTrans (${entry.phrasebookId ? `offline phrasebook phrase ${entry.phrasebookId}` : entry.manualTranslation ? 'translation entered by staff' : 'AI-assisted'}).` },
+          ...(entry.revisions ?? []).map(revision => ({
+            authorString: editorLabel(revision),
+            time: revision.editedAt.toISOString(),
+            text: `${REVISION_REASONS[revision.reason]}; previous ${revision.field === 'originalText' ? 'original' : 'translation'}: "${revision.previousValue}"`,
+          })),
+          ...(entry.keyInstruction ? [{ text: `Key instruction; teach-back: ${teachBackResult(entry)}` }] : []),
+        ],
+      },
+    }));
+
+  return {
+    resourceType: 'Bundle',
+    type: 'collection',
+    identifier: { system: 'urn:healthtrans:session', value: session.id },
+    timestamp: new Date().toISOString(),
+    entry: entries,
+  };
+}
+
+const download = (filename: string, mimeType: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Print through a hidden iframe so no popup is needed
+const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.srcdoc = html;
+  frame.onload = () => {
+    frame.contentWindow?.print();
+    setTimeout(() => frame.remove(), 1000);
+  };
+  document.body.appendChild(frame);
+};
+
+export const printPatientHandout = (summary: VisitSummary) => printHtml(buildPatientHandout(summary));
+
+export function exportSession(session: EncounterSession, format: ExportFormat) {
+  const stem = fileStem(session);
+  switch (format) {
+    case 'print':
+      return printHtml(buildHtmlReport(session));
+    case 'html':
+      return download(`${stem}.html`, 'text/html', buildHtmlReport(session));
+    case 'text':
+      return download(`${stem}.txt`, 'text/plain', buildTextTranscript(session));
+    case 'csv':
+      return download(`${stem}.csv`, 'text/csv', buildCsv(session));
+    case 'fhir':
+      return download(`${stem}.fhir.json`, 'application/fhir+json', JSON.stringify(buildFhirBundle(session), null, 2));
+  }
+}
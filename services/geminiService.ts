@@ -1,82 +1,91 @@
-
-import { GoogleGenAI, Modality } from "@google/genai";
+import { FinishReason, GenerateContentResponse, GoogleGenAI, Modality } from "@google/genai";
+import { GenerationRequest, SpeechRequest, TranslationProvider, TranslationRequest } from './translationProvider';
+import { buildTranslationInstruction } from './medicalPrompt';
+import { decodeBase64, encodeBase64 } from './audioUtils';
+import { TranslationError, toTranslationError } from './translationErrors';
+import { field, firstItem, stringOrUndefined } from './responseFields';
 
 const getAIClient = () => {
   return new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
 };
 
-const getLangName = (code: string): string => {
-  const langMap: Record<string, string> = {
-    'en-US': 'English',
-    'es-ES': 'Spanish',
-    'fr-FR': 'French',
-    'zh-CN': 'Mandarin Chinese',
-    'vi-VN': 'Vietnamese',
-    'ar-SA': 'Arabic',
-    'hi-IN': 'Hindi',
-    'ru-RU': 'Russian',
-  };
-  return langMap[code] || code;
+const TRANSLATION_MODEL = "gemini-3-flash-preview";
+
+const isBlocked = (response: GenerateContentResponse) =>
+  Boolean(response.promptFeedback?.blockReason) || response.candidates?.[0]?.finishReason === FinishReason.SAFETY;
+
+// Prefer SDK helper when available, otherwise fallback to candidates path
+const responseText = (response: GenerateContentResponse): string | undefined => {
+  const text: unknown = field(response, 'text');
+  const viaMethod = typeof text === 'function' ? stringOrUndefined(text.call(response)) : undefined;
+  const viaProp = stringOrUndefined(text);
+  const part = firstItem(field(field(firstItem(field(response, 'candidates')), 'content'), 'parts'));
+  const viaCandidates = stringOrUndefined(field(part, 'text'));
+  return viaMethod ?? viaProp ?? viaCandidates;
 };
 
-export async function translateMedicalText(
-  text: string,
-  sourceLang: string,
-  targetLang: string
-): Promise<string> {
+async function translate({ text, sourceLang, targetLang, glossary, context, onPartial, signal }: TranslationRequest): Promise<string> {
   const ai = getAIClient();
-  
-  const srcLangName = getLangName(sourceLang);
-  const tgtLangName = getLangName(targetLang);
-  
-  const systemInstruction = `
-    You are an expert medical interpreter with 20 years of experience in clinical settings.
-    CRITICAL INSTRUCTION: Translate the following healthcare conversation from ${srcLangName} to ${tgtLangName} with 100% medical accuracy.
-    1. NEVER alter medical terms, medication names, or dosages.
-    2. Maintain the exact meaning. Do NOT paraphrase or simplify clinical terminology unless it is a direct explanation from the provider.
-    3. Ensure the tone remains professional yet accessible.
-    4. If a word has no direct medical equivalent, use the closest clinical term used in the target language's healthcare system.
-    5. Provide ONLY the translated text. No commentary.
-  `;
+  const request = {
+    model: TRANSLATION_MODEL,
+    contents: [{ parts: [{ text }]}],
+    config: {
+      systemInstruction: buildTranslationInstruction(sourceLang, targetLang, glossary, context),
+      temperature: 0.0, // Absolute minimum randomness for medical precision
+      abortSignal: signal,
+    },
+  };
 
+  let translated = '';
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: [{ parts: [{ text }]}],
-      config: {
-        systemInstruction,
-        temperature: 0.0, // Absolute minimum randomness for medical precision
-      },
-    });
-
-    // Prefer SDK helper when available, otherwise fallback to candidates path
-    const r: any = response as any;
-    const viaMethod = typeof r.text === 'function' ? r.text() : undefined;
-    const viaProp = typeof r.text === 'string' ? r.text : undefined;
-    const viaCandidates = r?.candidates?.[0]?.content?.parts?.[0]?.text as string | undefined;
-    return viaMethod ?? viaProp ?? viaCandidates ?? "Translation failed.";
+    if (onPartial) {
+      // Stream chunks so the pending entry fills in while the model is still writing
+      for await (const chunk of await ai.models.generateContentStream(request)) {
+        if (isBlocked(chunk)) throw new TranslationError('safety');
+        const piece = responseText(chunk);
+        if (piece) {
+          translated += piece;
+          onPartial(translated);
+        }
+      }
+    } else {
+      const response = await ai.models.generateContent(request);
+      if (isBlocked(response)) throw new TranslationError('safety');
+      translated = responseText(response) ?? '';
+    }
   } catch (error) {
+    if (error instanceof TranslationError) throw error;
     console.error("Translation error:", error);
-    return "Error: Unable to connect to translation service.";
+    throw toTranslationError(error);
   }
+
+  if (!translated.trim()) throw new TranslationError('empty');
+  return translated;
 }
 
-export async function generateMedicalSpeech(text: string, voice: string = 'Kore'): Promise<ArrayBuffer> {
+const SPEECH_MODEL = "gemini-2.5-flash-preview-tts";
+
+export const DEFAULT_SPEECH_STYLE = 'Say clearly and professionally:';
+
+const speechRequest = ({ text, voice, style = DEFAULT_SPEECH_STYLE, signal }: SpeechRequest) => ({
+  model: SPEECH_MODEL,
+  contents: [{ parts: [{ text: style.trim() ? `${style.trim()} ${text}` : text }] }],
+  config: {
+    responseModalities: [Modality.AUDIO],
+    abortSignal: signal,
+    speechConfig: {
+      voiceConfig: {
+        prebuiltVoiceConfig: { voiceName: voice },
+      },
+    },
+  },
+});
+
+async function synthesizeSpeech(request: SpeechRequest): Promise<ArrayBuffer> {
   const ai = getAIClient();
   
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
-      contents: [{ parts: [{ text: `Say clearly and professionally: ${text}` }] }],
-      config: {
-        responseModalities: [Modality.AUDIO],
-        speechConfig: {
-          voiceConfig: {
-            prebuiltVoiceConfig: { voiceName: voice },
-          },
-        },
-      },
-    });
+    const response = await ai.models.generateContent(speechRequest(request));
 
     const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
     if (!base64Audio) throw new Error("No audio data returned");
@@ -88,40 +97,76 @@ export async function generateMedicalSpeech(text: string, voice: string = 'Kore'
   }
 }
 
-function decodeBase64(base64: string): ArrayBuffer {
-  const binaryString = atob(base64);
-  const bytes = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
+// Gemini TTS streams headerless 16-bit PCM at 24 kHz
+async function streamSpeech(request: SpeechRequest, onChunk: (pcm: ArrayBuffer) => void): Promise<void> {
+  const ai = getAIClient();
+
+  try {
+    let received = false;
+    for await (const chunk of await ai.models.generateContentStream(speechRequest(request))) {
+      for (const part of chunk.candidates?.[0]?.content?.parts ?? []) {
+        if (part.inlineData?.data) {
+          received = true;
+          onChunk(decodeBase64(part.inlineData.data));
+        }
+      }
+    }
+    if (!received) throw new Error("No audio data returned");
+  } catch (error) {
+    console.error("TTS error:", error);
+    throw error;
   }
-  return bytes.buffer;
 }
 
-export async function decodePcmAudio(
-  data: ArrayBuffer,
-  ctx: AudioContext,
-  sampleRate: number = 24000,
-  numChannels: number = 1
-): Promise<AudioBuffer> {
-  // First try decoding with browser's decoder (handles MP3/OGG/WAV/etc.)
+async function generate({ systemInstruction, text, json, signal }: GenerationRequest): Promise<string> {
+  const ai = getAIClient();
+  let output: string | undefined;
   try {
-    const audioBuffer = await new Promise<AudioBuffer>((resolve, reject) => {
-      // slice to detach the buffer for decodeAudioData in some browsers
-      ctx.decodeAudioData(data.slice(0), resolve, reject);
+    const response = await ai.models.generateContent({
+      model: TRANSLATION_MODEL,
+      contents: [{ parts: [{ text }] }],
+      config: {
+        systemInstruction,
+        temperature: 0.0,
+        responseMimeType: json ? 'application/json' : undefined,
+        abortSignal: signal,
+      },
     });
-    return audioBuffer;
-  } catch {
-    // Fall back to manual PCM (Int16) decoding as previously implemented
-    const dataInt16 = new Int16Array(data);
-    const frameCount = Math.floor(dataInt16.length / numChannels);
-    const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-
-    for (let channel = 0; channel < numChannels; channel++) {
-      const channelData = buffer.getChannelData(channel);
-      for (let i = 0; i < frameCount; i++) {
-        channelData[i] = dataInt16[i * numChannels + channel] / 32768.0;
-      }
-    }
-    return buffer;
+    if (isBlocked(response)) throw new TranslationError('safety');
+    output = responseText(response);
+  } catch (error) {
+    if (error instanceof TranslationError) throw error;
+    console.error("Generation error:", error);
+    throw toTranslationError(error);
   }
+
+  if (!output?.trim()) throw new TranslationError('empty');
+  return output;
+}
+
+export const geminiProvider: TranslationProvider = {
+  id: 'gemini',
+  capabilities: { speech: true, offline: false, streaming: true },
+  translate,
+  synthesizeSpeech,
+  streamSpeech,
+  generate,
+};
+
+const TRANSCRIPTION_MODEL = "gemini-2.5-flash";
+
+// Audio input for browsers without the Web Speech API; `wav` is a mono 16-bit WAV segment
+export async function transcribeAudio(wav: ArrayBuffer, languageName: string, signal?: AbortSignal): Promise<string> {
+  const ai = getAIClient();
+  const response = await ai.models.generateContent({
+    model: TRANSCRIPTION_MODEL,
+    contents: [{
+      parts: [
+        { inlineData: { mimeType: 'audio/wav', data: encodeBase64(wav) } },
+        { text: `Transcribe this ${languageName} speech verbatim, in ${languageName}. Return only the transcript, or nothing if there is no speech.` },
+      ],
+    }],
+    config: { temperature: 0.0, abortSignal: signal },
+  });
+  return (responseText(response) ?? '').trim();
 }
@@ -0,0 +1,64 @@
+import { GlossaryEntry, LANGUAGES } from '../types';
+import { buildTermMatcher } from './termMatcher';
+import { parseCsv } from './terminology';
+
+// Facility glossary: mandated translations that are injected into the prompt and checked afterwards.
+// CSV files have a header row `source_lang,source_term,target_lang,target_term,forbidden`,
+// with several forbidden renderings separated by `|`.
+
+const CSV_COLUMNS = ['source_lang', 'source_term', 'target_lang', 'target_term', 'forbidden'];
+
+const contains = (text: string, terms: string[]) =>
+  buildTermMatcher(terms.map(term => [term, term] as [string, string])).findAll(text).map(match => match.value);
+
+// Glossary pairs for this language direction whose source term occurs in the text
+export function selectGlossaryEntries(
+  glossary: GlossaryEntry[],
+  text: string,
+  sourceLang: string,
+  targetLang: string
+): GlossaryEntry[] {
+  const candidates = glossary.filter(entry => entry.sourceLang === sourceLang && entry.targetLang === targetLang);
+  if (!candidates.length) return [];
+  const found = new Set(contains(text, candidates.map(entry => entry.sourceTerm)).map(term => term.toLowerCase()));
+  return candidates.filter(entry => found.has(entry.sourceTerm.toLowerCase()));
+}
+
+// Human-readable violations; empty when every mandated term was used and no forbidden one was
+export function checkGlossaryCompliance(entries: GlossaryEntry[], translated: string): string[] {
+  const violations: string[] = [];
+  for (const entry of entries) {
+    if (!contains(translated, [entry.targetTerm]).length) {
+      violations.push(`"${entry.sourceTerm}" must be translated as "${entry.targetTerm}".`);
+    }
+    for (const used of contains(translated, entry.forbidden)) {
+      violations.push(`"${used}" is not an approved translation of "${entry.sourceTerm}".`);
+    }
+  }
+  return violations;
+}
+
+export function parseGlossaryCsv(text: string): GlossaryEntry[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map(cell => cell.trim().toLowerCase());
+  if (CSV_COLUMNS.slice(0, 4).some((column, i) => columns[i] !== column)) {
+    throw new Error(`Glossary CSV must start with "${CSV_COLUMNS.join(',')}".`);
+  }
+
+  return rows.map((cells, index) => {
+    const [sourceLang, sourceTerm, targetLang, targetTerm, forbidden = ''] = cells.map(cell => cell.trim());
+    const row = index + 2;
+    for (const lang of [sourceLang, targetLang]) {
+      if (!LANGUAGES.some(l => l.code === lang)) throw new Error(`Glossary row ${row} has unknown language "${lang}".`);
+    }
+    if (!sourceTerm || !targetTerm) throw new Error(`Glossary row ${row} needs both a source and a target term.`);
+    return {
+      id: crypto.randomUUID(),
+      sourceLang,
+      targetLang,
+      sourceTerm,
+      targetTerm,
+      forbidden: forbidden.split('|').map(f => f.trim()).filter(Boolean),
+    };
+  });
+}
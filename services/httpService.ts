@@ -0,0 +1,75 @@
+import { GenerationRequest, SpeechRequest, TranslationProvider, TranslationRequest } from './translationProvider';
+import { buildTranslationInstruction } from './medicalPrompt';
+import { TranslationError, toTranslationError } from './translationErrors';
+import { field } from './responseFields';
+
+// Self-hosted endpoint contract:
+//   POST {base}/translate  { text, sourceLang, targetLang, systemInstruction } -> { translation, blocked? }
+//   POST {base}/speech     { text, voice, style? } -> raw audio bytes (PCM or any browser-decodable format)
+//   POST {base}/generate   { text, systemInstruction, json } -> { text, blocked? }
+const getEndpoint = () => (process.env.TRANSLATION_ENDPOINT || '').replace(/\/+$/, '');
+
+async function post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+  const response = await fetch(`${getEndpoint()}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    throw Object.assign(new Error(`HTTP ${response.status} from ${path}`), { status: response.status });
+  }
+  return response;
+}
+
+async function translate({ text, sourceLang, targetLang, glossary, context, signal }: TranslationRequest): Promise<string> {
+  let data: unknown;
+  try {
+    const response = await post('/translate', {
+      text,
+      sourceLang,
+      targetLang,
+      systemInstruction: buildTranslationInstruction(sourceLang, targetLang, glossary, context),
+    }, signal);
+    data = await response.json();
+  } catch (error) {
+    console.error("Translation error:", error);
+    throw toTranslationError(error);
+  }
+
+  if (field(data, 'blocked')) throw new TranslationError('safety');
+  const translation = field(data, 'translation');
+  if (typeof translation !== 'string' || !translation.trim()) {
+    throw new TranslationError('empty');
+  }
+  return translation;
+}
+
+async function synthesizeSpeech({ text, voice, style, signal }: SpeechRequest): Promise<ArrayBuffer> {
+  const response = await post('/speech', { text, voice, style }, signal);
+  return response.arrayBuffer();
+}
+
+async function generate({ systemInstruction, text, json = false, signal }: GenerationRequest): Promise<string> {
+  let data: unknown;
+  try {
+    const response = await post('/generate', { text, systemInstruction, json }, signal);
+    data = await response.json();
+  } catch (error) {
+    console.error("Generation error:", error);
+    throw toTranslationError(error);
+  }
+
+  if (field(data, 'blocked')) throw new TranslationError('safety');
+  const generated = field(data, 'text');
+  if (typeof generated !== 'string' || !generated.trim()) throw new TranslationError('empty');
+  return generated;
+}
+
+export const httpProvider: TranslationProvider = {
+  id: 'http',
+  capabilities: { speech: true, offline: false, streaming: false },
+  translate,
+  synthesizeSpeech,
+  generate,
+};
@@ -0,0 +1,62 @@
+// Local, synchronous spoken-language identification for recognized text.
+// Only ever chooses between the languages of the current session, so a coarse classifier is enough:
+// non-Latin scripts are decisive, Latin-script languages are told apart by diacritics and function words.
+
+export interface DetectionResult {
+  lang: string;
+  // Share of the evidence pointing at `lang`, 0..1
+  confidence: number;
+}
+
+const MIN_CONFIDENCE = 0.7;
+// Weak Latin-script evidence (e.g. a single shared word) is not enough to override the assumed language
+const MIN_LATIN_EVIDENCE = 2;
+
+const SCRIPTS: Record<string, RegExp> = {
+  zh: /\p{Script=Han}/gu,
+  ar: /\p{Script=Arabic}/gu,
+  hi: /\p{Script=Devanagari}/gu,
+  ru: /\p{Script=Cyrillic}/gu,
+};
+
+const LATIN_MARKERS: Record<string, RegExp> = {
+  vi: /[ăâđơưạảấầẩẫậắằẳẵặẹẻẽếềểễệỉịọỏốồổỗộớờởỡợụủứừửữựỳỵỷỹ]/gu,
+  es: /[ñ¿¡]/gu,
+  fr: /[çœàèùëïû]/gu,
+};
+
+const FUNCTION_WORDS: Record<string, Set<string>> = {
+  en: new Set(['the', 'and', 'is', 'are', 'you', 'your', 'i', 'it', 'to', 'of', 'my', 'have', 'do', 'does', 'how', 'what', 'yes', 'with', 'for', 'this', 'that', 'not', 'take', 'day', 'times', 'pain', 'hurts', 'when', 'any']),
+  es: new Set(['el', 'la', 'los', 'las', 'de', 'que', 'y', 'es', 'un', 'una', 'me', 'mi', 'con', 'por', 'para', 'sí', 'tengo', 'duele', 'dolor', 'cuántas', 'veces', 'día', 'usted', 'qué', 'está', 'tiene', 'cuando', 'muy']),
+  fr: new Set(['le', 'la', 'les', 'de', 'des', 'et', 'est', 'je', 'vous', 'un', 'une', 'pas', 'oui', 'non', 'mal', 'avez', 'combien', 'fois', 'jour', 'ce', 'il', 'elle', 'mon', 'ma', 'avec', 'pour', 'quand', 'très']),
+  vi: new Set(['tôi', 'bạn', 'có', 'không', 'là', 'của', 'và', 'đau', 'bao', 'nhiêu', 'lần', 'ngày', 'này', 'được', 'cho', 'với', 'thuốc', 'bác', 'sĩ']),
+};
+
+const baseCode = (code: string) => code.split('-')[0].toLowerCase();
+
+const count = (text: string, pattern: RegExp) => text.match(pattern)?.length ?? 0;
+
+const scoreLanguage = (base: string, text: string, words: string[]): number => {
+  if (SCRIPTS[base]) return count(text, SCRIPTS[base]);
+  const markers = LATIN_MARKERS[base] ? count(text, LATIN_MARKERS[base]) : 0;
+  const vocabulary = FUNCTION_WORDS[base];
+  const hits = vocabulary ? words.filter(w => vocabulary.has(w)).length : 0;
+  return markers + hits;
+};
+
+// Pick which of `candidates` the text is in; null when the evidence is too weak to say
+export const detectLanguage = (text: string, candidates: string[]): DetectionResult | null => {
+  const normalized = text.toLocaleLowerCase();
+  const words = normalized.split(/[^\p{L}]+/u).filter(Boolean);
+  if (words.length === 0) return null;
+
+  const scores = candidates.map(lang => ({ lang, score: scoreLanguage(baseCode(lang), normalized, words) }));
+  const total = scores.reduce((sum, s) => sum + s.score, 0);
+  if (total === 0) return null;
+
+  const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+  const confidence = best.score / total;
+  const isScriptBased = Boolean(SCRIPTS[baseCode(best.lang)]);
+  if (confidence < MIN_CONFIDENCE || (!isScriptBased && best.score < MIN_LATIN_EVIDENCE)) return null;
+  return { lang: best.lang, confidence };
+};
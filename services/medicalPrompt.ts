@@ -0,0 +1,90 @@
+import { GlossaryEntry } from '../types';
+import { ContextTurn } from './conversationContext';
+
+const LANG_NAMES: Record<string, string> = {
+  'en-US': 'English',
+  'es-ES': 'Spanish',
+  'fr-FR': 'French',
+  'zh-CN': 'Mandarin Chinese',
+  'vi-VN': 'Vietnamese',
+  'ar-SA': 'Arabic',
+  'hi-IN': 'Hindi',
+  'ru-RU': 'Russian',
+};
+
+export const getLangName = (code: string): string => LANG_NAMES[code] || code;
+
+// Facility-mandated terms override rule 4 and any colloquial alternative
+const buildGlossaryRule = (glossary: GlossaryEntry[]): string => {
+  if (!glossary.length) return '';
+  const lines = glossary.map(entry => {
+    const forbidden = entry.forbidden.length ? ` (never ${entry.forbidden.map(f => `"${f}"`).join(', ')})` : '';
+    return `    - "${entry.sourceTerm}" → "${entry.targetTerm}"${forbidden}`;
+  });
+  return `  6. FACILITY GLOSSARY: these terms MUST be translated exactly as shown, even where a more common phrase exists:
+${lines.join('\n')}
+  `;
+};
+
+// Earlier turns help resolve references but must never leak into the output
+const buildContextBlock = (context: ContextTurn[]): string => {
+  if (!context.length) return '';
+  const lines = context.map(turn => {
+    const role = turn.speaker === 'provider' ? 'Provider' : 'Patient';
+    return `    [${role}] (${getLangName(turn.sourceLang)}) ${JSON.stringify(turn.originalText)} → (${getLangName(turn.targetLang)}) ${JSON.stringify(turn.translatedText)}`;
+  });
+  return `
+    CONVERSATION SO FAR (reference only, oldest first). Use it to resolve pronouns, omitted words and previously mentioned medications.
+    Do NOT translate, repeat or summarize these turns; translate ONLY the new message.
+${lines.join('\n')}
+  `;
+};
+
+// Shared by every provider that talks to an instruction-following model
+export const buildTranslationInstruction = (
+  sourceLang: string,
+  targetLang: string,
+  glossary: GlossaryEntry[] = [],
+  context: ContextTurn[] = []
+): string => {
+  const srcLangName = getLangName(sourceLang);
+  const tgtLangName = getLangName(targetLang);
+
+  return `
+    You are an expert medical interpreter with 20 years of experience in clinical settings.
+    CRITICAL INSTRUCTION: Translate the following healthcare conversation from ${srcLangName} to ${tgtLangName} with 100% medical accuracy.
+    1. NEVER alter medical terms, medication names, or dosages.
+    2. Maintain the exact meaning. Do NOT paraphrase or simplify clinical terminology unless it is a direct explanation from the provider.
+    3. Ensure the tone remains professional yet accessible.
+    4. If a word has no direct medical equivalent, use the closest clinical term used in the target language's healthcare system.
+    5. Provide ONLY the translated text. No commentary.
+  ${buildGlossaryRule(glossary)}${buildContextBlock(context)}`;
+};
+
+// The patient's reply arrives already translated into the instruction's language
+export const buildTeachBackInstruction = (lang: string): string => `
+    You assess patient comprehension in a medical teach-back. The input has an INSTRUCTION the clinician gave
+    and the patient's REPLY repeating it in their own words, both in ${getLangName(lang)}.
+    Judge meaning, not wording. Medication names, doses, frequencies, durations and warning signs must match.
+    Respond with JSON only: {"outcome": "understood" | "partial" | "not-understood", "gaps": string[], "explanation": string}
+    - understood: every key point is present and correct.
+    - partial: some key points are missing, but nothing is stated incorrectly.
+    - not-understood: most key points are missing, or any point is stated incorrectly.
+    "gaps" lists each missing or incorrect key point in a few words. "explanation" is one short sentence in English.
+  `;
+
+// Items are written in the provider's language and translated afterwards like any utterance
+export const buildVisitSummaryInstruction = (lang: string): string => `
+    You write the end-of-visit summary a patient takes home. The input is the interpreted consultation,
+    one utterance per line as "#<number> <Provider|Patient>: <text>", all in ${getLangName(lang)}.
+    Use ONLY what was said. Never add medications, doses, frequencies, durations or advice that are not in the transcript,
+    and copy every number exactly as spoken.
+    Respond with JSON only, in ${getLangName(lang)}, in plain language the patient can follow:
+    {"chiefComplaint": Item[], "medications": Item[], "instructions": Item[], "followUp": Item[]}
+    where Item is {"text": string, "entries": number[]} and "entries" lists the utterance numbers the item is based on.
+    - chiefComplaint: why the patient came, in one item.
+    - medications: one item per medication with its dose, frequency and duration.
+    - instructions: what the patient must do or watch for at home.
+    - followUp: appointments, tests and when to come back.
+    Leave a list empty when the consultation did not cover it.
+  `;
@@ -0,0 +1,52 @@
+import { TranslationProvider, TranslationRequest } from './translationProvider';
+
+// Small deterministic dictionary so the app and its translation path run without network access.
+// Each row lists the same phrase in every supported language.
+const DICTIONARY: Record<string, string>[] = [
+  {
+    'en-US': 'Hello', 'es-ES': 'Hola', 'fr-FR': 'Bonjour', 'zh-CN': '你好',
+    'vi-VN': 'Xin chào', 'ar-SA': 'مرحبا', 'hi-IN': 'नमस्ते', 'ru-RU': 'Здравствуйте',
+  },
+  {
+    'en-US': 'Where does it hurt?', 'es-ES': '¿Dónde le duele?', 'fr-FR': 'Où avez-vous mal ?', 'zh-CN': '哪里疼？',
+    'vi-VN': 'Bạn đau ở đâu?', 'ar-SA': 'أين يؤلمك؟', 'hi-IN': 'कहाँ दर्द होता है?', 'ru-RU': 'Где болит?',
+  },
+  {
+    'en-US': 'Do you have any allergies?', 'es-ES': '¿Tiene alguna alergia?', 'fr-FR': 'Avez-vous des allergies ?', 'zh-CN': '您有过敏吗？',
+    'vi-VN': 'Bạn có bị dị ứng gì không?', 'ar-SA': 'هل لديك أي حساسية؟', 'hi-IN': 'क्या आपको कोई एलर्जी है?', 'ru-RU': 'У вас есть аллергия?',
+  },
+  {
+    'en-US': 'Yes', 'es-ES': 'Sí', 'fr-FR': 'Oui', 'zh-CN': '是',
+    'vi-VN': 'Có', 'ar-SA': 'نعم', 'hi-IN': 'हाँ', 'ru-RU': 'Да',
+  },
+  {
+    'en-US': 'No', 'es-ES': 'No', 'fr-FR': 'Non', 'zh-CN': '不是',
+    'vi-VN': 'Không', 'ar-SA': 'لا', 'hi-IN': 'नहीं', 'ru-RU': 'Нет',
+  },
+  {
+    'en-US': 'Thank you', 'es-ES': 'Gracias', 'fr-FR': 'Merci', 'zh-CN': '谢谢',
+    'vi-VN': 'Cảm ơn', 'ar-SA': 'شكرا', 'hi-IN': 'धन्यवाद', 'ru-RU': 'Спасибо',
+  },
+];
+
+const normalize = (text: string) =>
+  text.toLocaleLowerCase().replace(/[\s\p{P}]+/gu, ' ').trim();
+
+async function translate({ text, sourceLang, targetLang }: TranslationRequest): Promise<string> {
+  const key = normalize(text);
+  const row = DICTIONARY.find(r => r[sourceLang] && normalize(r[sourceLang]) === key);
+  if (row?.[targetLang]) return row[targetLang];
+  // Unknown phrases are echoed with a language tag so the output stays predictable
+  return `[${targetLang}] ${text}`;
+}
+
+async function synthesizeSpeech(): Promise<ArrayBuffer> {
+  throw new Error("Mock provider does not synthesize speech");
+}
+
+export const mockProvider: TranslationProvider = {
+  id: 'mock',
+  capabilities: { speech: false, offline: true, streaming: false },
+  translate,
+  synthesizeSpeech,
+};
@@ -0,0 +1,10 @@
+// Items of `expected` not matched one-for-one in `actual`, so a repeated item must appear as often on both sides
+export const missingFrom = <T>(expected: T[], actual: T[]): T[] => {
+  const remaining = [...actual];
+  return expected.filter(item => {
+    const index = remaining.indexOf(item);
+    if (index === -1) return true;
+    remaining.splice(index, 1);
+    return false;
+  });
+};
@@ -0,0 +1,12 @@
+/// <reference types="vite/client" />
+
+// Caches the app shell so HealthTrans opens without a connection (public/sw.js).
+// Production builds only: the dev server serves modules that change on every edit.
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => {
+      console.error("Service worker registration failed:", error);
+    });
+  });
+};
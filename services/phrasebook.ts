@@ -0,0 +1,290 @@
+// Offline phrasebook: vetted, pre-translated clinical phrases for every language in LANGUAGES.
+// Used when the translation service cannot be reached. A spoken utterance only uses a phrase when
+// it matches the phrase exactly, ignoring case and punctuation; anything else waits for the connection.
+
+export type PhraseCategory = 'pain' | 'allergies' | 'yes-no' | 'consent' | 'general';
+
+export const PHRASE_CATEGORIES: Record<PhraseCategory, string> = {
+  pain: 'Pain',
+  allergies: 'Allergies',
+  'yes-no': 'Yes / No',
+  consent: 'Consent',
+  general: 'General',
+};
+
+export interface Phrase {
+  id: string;
+  category: PhraseCategory;
+  // One vetted rendering per language code
+  text: Record<string, string>;
+}
+
+export const PHRASEBOOK: Phrase[] = [
+  {
+    id: 'pain-scale',
+    category: 'pain',
+    text: {
+      'en-US': 'On a scale from 0 to 10, how bad is your pain?',
+      'es-ES': 'En una escala del 0 al 10, ¿qué tan fuerte es su dolor?',
+      'fr-FR': 'Sur une échelle de 0 à 10, quelle est l’intensité de votre douleur ?',
+      'zh-CN': '从0到10分，您的疼痛有多严重？',
+      'vi-VN': 'Trên thang điểm từ 0 đến 10, bạn đau đến mức nào?',
+      'ar-SA': 'على مقياس من 0 إلى 10، ما مدى شدة ألمك؟',
+      'hi-IN': '0 से 10 के पैमाने पर, आपका दर्द कितना तेज़ है?',
+      'ru-RU': 'По шкале от 0 до 10, насколько сильная у вас боль?',
+    },
+  },
+  {
+    id: 'pain-where',
+    category: 'pain',
+    text: {
+      'en-US': 'Show me where it hurts.',
+      'es-ES': 'Muéstreme dónde le duele.',
+      'fr-FR': 'Montrez-moi où vous avez mal.',
+      'zh-CN': '请指给我看哪里疼。',
+      'vi-VN': 'Hãy chỉ cho tôi chỗ bị đau.',
+      'ar-SA': 'أرني أين يؤلمك.',
+      'hi-IN': 'मुझे दिखाइए कि कहाँ दर्द होता है।',
+      'ru-RU': 'Покажите, где болит.',
+    },
+  },
+  {
+    id: 'pain-since',
+    category: 'pain',
+    text: {
+      'en-US': 'How long have you had this pain?',
+      'es-ES': '¿Desde cuándo tiene este dolor?',
+      'fr-FR': 'Depuis combien de temps avez-vous cette douleur ?',
+      'zh-CN': '这种疼痛持续多久了？',
+      'vi-VN': 'Bạn bị đau như thế này bao lâu rồi?',
+      'ar-SA': 'منذ متى تشعر بهذا الألم؟',
+      'hi-IN': 'आपको यह दर्द कब से है?',
+      'ru-RU': 'Как давно у вас эта боль?',
+    },
+  },
+  {
+    id: 'allergy-any',
+    category: 'allergies',
+    text: {
+      'en-US': 'Do you have any allergies?',
+      'es-ES': '¿Tiene alguna alergia?',
+      'fr-FR': 'Avez-vous des allergies ?',
+      'zh-CN': '您有过敏吗？',
+      'vi-VN': 'Bạn có bị dị ứng gì không?',
+      'ar-SA': 'هل لديك أي حساسية؟',
+      'hi-IN': 'क्या आपको कोई एलर्जी है?',
+      'ru-RU': 'У вас есть аллергия?',
+    },
+  },
+  {
+    id: 'allergy-medicine',
+    category: 'allergies',
+    text: {
+      'en-US': 'Are you allergic to any medicines?',
+      'es-ES': '¿Es alérgico a algún medicamento?',
+      'fr-FR': 'Êtes-vous allergique à des médicaments ?',
+      'zh-CN': '您对什么药物过敏吗？',
+      'vi-VN': 'Bạn có dị ứng với thuốc nào không?',
+      'ar-SA': 'هل لديك حساسية من أي دواء؟',
+      'hi-IN': 'क्या आपको किसी दवा से एलर्जी है?',
+      'ru-RU': 'У вас есть аллергия на какие-либо лекарства?',
+    },
+  },
+  {
+    id: 'allergy-reaction',
+    category: 'allergies',
+    text: {
+      'en-US': 'Have you ever had a bad reaction to a medicine?',
+      'es-ES': '¿Alguna vez ha tenido una mala reacción a un medicamento?',
+      'fr-FR': 'Avez-vous déjà eu une mauvaise réaction à un médicament ?',
+      'zh-CN': '您以前对药物有过不良反应吗？',
+      'vi-VN': 'Bạn đã từng bị phản ứng xấu với thuốc nào chưa?',
+      'ar-SA': 'هل سبق أن أصبت برد فعل سيئ تجاه دواء؟',
+      'hi-IN': 'क्या आपको कभी किसी दवा से बुरी प्रतिक्रिया हुई है?',
+      'ru-RU': 'У вас когда-нибудь была плохая реакция на лекарство?',
+    },
+  },
+  {
+    id: 'yes',
+    category: 'yes-no',
+    text: {
+      'en-US': 'Yes.',
+      'es-ES': 'Sí.',
+      'fr-FR': 'Oui.',
+      'zh-CN': '是。',
+      'vi-VN': 'Có.',
+      'ar-SA': 'نعم.',
+      'hi-IN': 'हाँ।',
+      'ru-RU': 'Да.',
+    },
+  },
+  {
+    id: 'no',
+    category: 'yes-no',
+    text: {
+      'en-US': 'No.',
+      'es-ES': 'No.',
+      'fr-FR': 'Non.',
+      'zh-CN': '不是。',
+      'vi-VN': 'Không.',
+      'ar-SA': 'لا.',
+      'hi-IN': 'नहीं।',
+      'ru-RU': 'Нет.',
+    },
+  },
+  {
+    id: 'dont-know',
+    category: 'yes-no',
+    text: {
+      'en-US': 'I don’t know.',
+      'es-ES': 'No sé.',
+      'fr-FR': 'Je ne sais pas.',
+      'zh-CN': '我不知道。',
+      'vi-VN': 'Tôi không biết.',
+      'ar-SA': 'لا أعرف.',
+      'hi-IN': 'मुझे नहीं पता।',
+      'ru-RU': 'Я не знаю.',
+    },
+  },
+  {
+    id: 'understand',
+    category: 'yes-no',
+    text: {
+      'en-US': 'Do you understand?',
+      'es-ES': '¿Entiende?',
+      'fr-FR': 'Vous comprenez ?',
+      'zh-CN': '您明白吗？',
+      'vi-VN': 'Bạn có hiểu không?',
+      'ar-SA': 'هل تفهم؟',
+      'hi-IN': 'क्या आपको समझ आया?',
+      'ru-RU': 'Вам понятно?',
+    },
+  },
+  {
+    id: 'repeat',
+    category: 'yes-no',
+    text: {
+      'en-US': 'Please repeat that.',
+      'es-ES': 'Por favor, repita eso.',
+      'fr-FR': 'Pouvez-vous répéter, s’il vous plaît ?',
+      'zh-CN': '请再说一遍。',
+      'vi-VN': 'Xin vui lòng nhắc lại.',
+      'ar-SA': 'من فضلك أعد ذلك.',
+      'hi-IN': 'कृपया इसे दोहराइए।',
+      'ru-RU': 'Пожалуйста, повторите.',
+    },
+  },
+  {
+    id: 'consent-explain',
+    category: 'consent',
+    text: {
+      'en-US': 'I will explain the procedure, its risks and its benefits.',
+      'es-ES': 'Le voy a explicar el procedimiento, sus riesgos y sus beneficios.',
+      'fr-FR': 'Je vais vous expliquer l’intervention, ses risques et ses bénéfices.',
+      'zh-CN': '我会向您解释这个操作及其风险和好处。',
+      'vi-VN': 'Tôi sẽ giải thích thủ thuật, các rủi ro và lợi ích của nó.',
+      'ar-SA': 'سأشرح لك الإجراء ومخاطره وفوائده.',
+      'hi-IN': 'आपको प्रक्रिया, उसके जोखिम और उसके फ़ायदे समझाए जाएँगे।',
+      'ru-RU': 'Я объясню вам процедуру, её риски и пользу.',
+    },
+  },
+  {
+    id: 'consent-questions',
+    category: 'consent',
+    text: {
+      'en-US': 'Do you have any questions before you decide?',
+      'es-ES': '¿Tiene alguna pregunta antes de decidir?',
+      'fr-FR': 'Avez-vous des questions avant de décider ?',
+      'zh-CN': '在做决定之前，您有什么问题吗？',
+      'vi-VN': 'Bạn có câu hỏi nào trước khi quyết định không?',
+      'ar-SA': 'هل لديك أي أسئلة قبل أن تقرر؟',
+      'hi-IN': 'फ़ैसला करने से पहले क्या आपके कोई सवाल हैं?',
+      'ru-RU': 'Есть ли у вас вопросы, прежде чем вы примете решение?',
+    },
+  },
+  {
+    id: 'consent-agree',
+    category: 'consent',
+    text: {
+      'en-US': 'Do you agree to this treatment?',
+      'es-ES': '¿Está de acuerdo con este tratamiento?',
+      'fr-FR': 'Acceptez-vous ce traitement ?',
+      'zh-CN': '您同意接受这个治疗吗？',
+      'vi-VN': 'Bạn có đồng ý với phương pháp điều trị này không?',
+      'ar-SA': 'هل توافق على هذا العلاج؟',
+      'hi-IN': 'क्या आप इस इलाज के लिए सहमत हैं?',
+      'ru-RU': 'Вы согласны на это лечение?',
+    },
+  },
+  {
+    id: 'consent-sign',
+    category: 'consent',
+    text: {
+      'en-US': 'Please sign here to give your consent.',
+      'es-ES': 'Por favor, firme aquí para dar su consentimiento.',
+      'fr-FR': 'Veuillez signer ici pour donner votre consentement.',
+      'zh-CN': '请在这里签字表示同意。',
+      'vi-VN': 'Xin vui lòng ký vào đây để đồng ý.',
+      'ar-SA': 'من فضلك وقّع هنا لإعطاء موافقتك.',
+      'hi-IN': 'अपनी सहमति देने के लिए कृपया यहाँ हस्ताक्षर करें।',
+      'ru-RU': 'Пожалуйста, распишитесь здесь, чтобы дать согласие.',
+    },
+  },
+  {
+    id: 'offline-notice',
+    category: 'general',
+    text: {
+      'en-US': 'The translation service is offline. We will use prepared phrases.',
+      'es-ES': 'El servicio de traducción no está disponible. Usaremos frases preparadas.',
+      'fr-FR': 'Le service de traduction est hors ligne. Nous allons utiliser des phrases préparées.',
+      'zh-CN': '翻译服务目前离线。我们将使用预先准备的短语。',
+      'vi-VN': 'Dịch vụ dịch thuật hiện không hoạt động. Chúng tôi sẽ dùng các câu đã chuẩn bị sẵn.',
+      'ar-SA': 'خدمة الترجمة غير متصلة. سنستخدم عبارات معدّة مسبقًا.',
+      'hi-IN': 'अनुवाद सेवा अभी ऑफ़लाइन है। हम पहले से तैयार वाक्यों का उपयोग करेंगे।',
+      'ru-RU': 'Служба перевода недоступна. Мы будем использовать заранее подготовленные фразы.',
+    },
+  },
+  {
+    id: 'wait',
+    category: 'general',
+    text: {
+      'en-US': 'Please wait a moment.',
+      'es-ES': 'Por favor, espere un momento.',
+      'fr-FR': 'Veuillez patienter un instant.',
+      'zh-CN': '请稍等一下。',
+      'vi-VN': 'Xin vui lòng chờ một chút.',
+      'ar-SA': 'من فضلك انتظر لحظة.',
+      'hi-IN': 'कृपया थोड़ा इंतज़ार करें।',
+      'ru-RU': 'Пожалуйста, подождите немного.',
+    },
+  },
+  {
+    id: 'feel-worse',
+    category: 'general',
+    text: {
+      'en-US': 'Tell us right away if you feel worse.',
+      'es-ES': 'Avísenos de inmediato si se siente peor.',
+      'fr-FR': 'Prévenez-nous tout de suite si vous vous sentez plus mal.',
+      'zh-CN': '如果您感觉更糟，请马上告诉我们。',
+      'vi-VN': 'Hãy báo ngay cho chúng tôi nếu bạn thấy tệ hơn.',
+      'ar-SA': 'أخبرنا فورًا إذا شعرت بأن حالتك تسوء.',
+      'hi-IN': 'अगर आपकी तबीयत बिगड़े तो हमें तुरंत बताइए।',
+      'ru-RU': 'Сразу сообщите нам, если вам станет хуже.',
+    },
+  },
+];
+
+// Case, punctuation and spacing differ between recognizers; words and numbers must match
+const normalizePhrase = (text: string) =>
+  text.normalize('NFKC').toLocaleLowerCase().replace(/[\p{P}\p{S}]+/gu, ' ').replace(/\s+/g, ' ').trim();
+
+export const findPhrase = (text: string, lang: string): Phrase | undefined => {
+  const normalized = normalizePhrase(text);
+  return PHRASEBOOK.find(phrase => phrase.text[lang] !== undefined && normalizePhrase(phrase.text[lang]) === normalized);
+};
+
+export const translateFromPhrasebook = (text: string, sourceLang: string, targetLang: string) => {
+  const phrase = findPhrase(text, sourceLang);
+  const translated = phrase?.text[targetLang];
+  return phrase && translated ? { phrase, text: translated } : null;
+};
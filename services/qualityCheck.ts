@@ -0,0 +1,80 @@
+import { TranslationQuality } from '../types';
+import { CallOptions } from './callPolicy';
+import { translateMedicalText } from './translationService';
+import { checkDosageIntegrity } from './dosageGuard';
+import { missingFrom } from './multiset';
+
+const HIGH_SIMILARITY = 0.6;
+const MEDIUM_SIMILARITY = 0.35;
+
+// Common generic drug-name stems; names usually survive a round trip unchanged
+const DRUG_NAME = /\b\p{L}+(?:mycin|cillin|pril|olol|statin|sartan|formin|profen|azole|oxetine|prazole|dipine|triptan|cycline|floxacin|barbital|azepam|parin)\b/giu;
+
+const normalize = (text: string) => text.toLocaleLowerCase().replace(/[\p{P}\s]+/gu, ' ').trim();
+
+const trigrams = (text: string): Map<string, number> => {
+  const padded = ` ${normalize(text)} `;
+  const grams = new Map<string, number>();
+  for (let i = 0; i < padded.length - 2; i++) {
+    const gram = padded.slice(i, i + 3);
+    grams.set(gram, (grams.get(gram) ?? 0) + 1);
+  }
+  return grams;
+};
+
+// Character-trigram Dice coefficient; works for scripts without spaces between words
+export const textSimilarity = (a: string, b: string): number => {
+  const ga = trigrams(a);
+  const gb = trigrams(b);
+  let overlap = 0;
+  let total = 0;
+  ga.forEach((n, gram) => {
+    overlap += Math.min(n, gb.get(gram) ?? 0);
+    total += n;
+  });
+  gb.forEach(n => { total += n; });
+  return total === 0 ? 1 : (2 * overlap) / total;
+};
+
+const extractDrugNames = (text: string): string[] =>
+  Array.from(text.matchAll(DRUG_NAME), m => m[0].toLowerCase());
+
+// Score a back-translation against the original utterance; entity mismatches always make it low
+export const scoreBackTranslation = (original: string, backTranslation: string, lang: string): TranslationQuality => {
+  const score = textSimilarity(original, backTranslation);
+  const reasons = checkDosageIntegrity(original, lang, backTranslation, lang)
+    .discrepancies.map(d => `After round trip — ${d}`);
+
+  const missingDrugs = missingFrom(extractDrugNames(original), extractDrugNames(backTranslation));
+  if (missingDrugs.length) reasons.push(`Medication name changed: ${missingDrugs.join(', ')}`);
+
+  const percent = Math.round(score * 100);
+  let level: TranslationQuality['level'];
+  if (reasons.length > 0) {
+    level = 'low';
+  } else if (score >= HIGH_SIMILARITY) {
+    level = 'high';
+  } else if (score >= MEDIUM_SIMILARITY) {
+    level = 'medium';
+  } else {
+    level = 'low';
+  }
+  reasons.push(`Back-translation matches the original at ${percent}% similarity.`);
+
+  return { level, score, reasons, backTranslation };
+};
+
+// Back-translate the output into the source language and compare it with what was said
+export async function assessTranslationQuality(
+  originalText: string,
+  translatedText: string,
+  sourceLang: string,
+  targetLang: string,
+  options: CallOptions = {}
+): Promise<TranslationQuality> {
+  const result = await translateMedicalText(translatedText, targetLang, sourceLang, options);
+  if (result.status === 'failure') {
+    return { level: 'unknown', score: 0, reasons: [`Back-translation unavailable: ${result.error.message}`] };
+  }
+  return scoreBackTranslation(originalText, result.text, sourceLang);
+}
@@ -0,0 +1,7 @@
+// Property access on parsed responses, whatever shape the server actually sent
+export const field = (data: unknown, key: string): unknown =>
+  typeof data === 'object' && data !== null ? (data as Record<string, unknown>)[key] : undefined;
+
+export const firstItem = (data: unknown): unknown => (Array.isArray(data) ? data[0] : undefined);
+
+export const stringOrUndefined = (value: unknown): string | undefined => (typeof value === 'string' ? value : undefined);
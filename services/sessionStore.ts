@@ -0,0 +1,180 @@
+import { EncounterSession } from '../types';
+import { decryptBytes, decryptJson, encryptBytes, encryptJson, EncryptedPayload, hmacHex } from './vaultCrypto';
+
+const DB_NAME = 'healthtrans';
+// v2 replaced plaintext records with encrypted ones; v3 added the speech clip store;
+// v4 keys clips by HMAC instead of a plain hash of their text
+const DB_VERSION = 4;
+const STORE = 'sessions';
+const SPEECH_STORE = 'speech';
+const MAX_STORED_CLIPS = 200;
+
+// Only the ID and last-write time stay in plaintext so retention can purge while locked
+interface StoredSession extends EncryptedPayload {
+  id: string;
+  updatedAt: Date;
+}
+
+// Synthesized audio of a translation; it speaks patient data, so it is encrypted like the transcript
+interface StoredSpeech extends EncryptedPayload {
+  // HMAC of the spoken text under the vault's clip key; see speechClipKey
+  key: string;
+  entryId: string;
+  raw: boolean;
+  storedAt: Date;
+}
+
+export interface SpeechClip {
+  data: ArrayBuffer;
+  raw: boolean;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+let storageKey: CryptoKey | null = null;
+let clipIndexKey: CryptoKey | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = (event) => {
+        const db = req.result;
+        if (event.oldVersion < 2) {
+          // Drop any plaintext sessions written before encryption existed
+          if (db.objectStoreNames.contains(STORE)) db.deleteObjectStore(STORE);
+          const store = db.createObjectStore(STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+        if (event.oldVersion < 3) {
+          const speech = db.createObjectStore(SPEECH_STORE, { keyPath: 'key' });
+          speech.createIndex('entryId', 'entryId');
+          speech.createIndex('storedAt', 'storedAt');
+        }
+        if (event.oldVersion === 3) {
+          // v3 clip keys were unsalted hashes anyone could match against guessed phrases
+          req.transaction!.objectStore(SPEECH_STORE).clear();
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const toPromise = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = STORE
+): Promise<T> => {
+  const db = await openDb();
+  return toPromise(fn(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+const requireKey = (): CryptoKey => {
+  if (!storageKey) throw new Error("Session storage is locked");
+  return storageKey;
+};
+
+// Set by the vault on unlock; cleared on lock so nothing can be read or written
+export const setStorageKey = (key: CryptoKey | null, indexKey: CryptoKey | null = null) => {
+  storageKey = key;
+  clipIndexKey = key ? indexKey : null;
+};
+
+// Clip IDs are stored in plaintext next to the audio, so they are keyed with a secret held in the vault
+export const speechClipKey = async (material: string): Promise<string> => {
+  if (!clipIndexKey) throw new Error("Session storage is locked");
+  return hmacHex(clipIndexKey, material);
+};
+
+const decryptSession = (key: CryptoKey, stored: StoredSession) =>
+  decryptJson<EncounterSession>(key, stored);
+
+export const saveSession = async (session: EncounterSession): Promise<void> => {
+  const payload = await encryptJson(requireKey(), session);
+  const stored: StoredSession = { id: session.id, updatedAt: session.updatedAt, ...payload };
+  await withStore('readwrite', store => store.put(stored));
+};
+
+export const getSession = async (id: string): Promise<EncounterSession | undefined> => {
+  const key = requireKey();
+  const stored = await withStore<StoredSession | undefined>('readonly', store => store.get(id));
+  return stored ? decryptSession(key, stored) : undefined;
+};
+
+// Most recently updated first
+export const listSessions = async (): Promise<EncounterSession[]> => {
+  const key = requireKey();
+  const stored = await withStore<StoredSession[]>('readonly', store => store.getAll());
+  const sessions = await Promise.all(stored.map(s => decryptSession(key, s)));
+  return sessions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+// Delete every session not touched within the retention window; returns how many were removed
+export const purgeExpiredSessions = async (retentionDays: number): Promise<number> => {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const expiredIds = await withStore<IDBValidKey[]>('readonly', store =>
+    store.index('updatedAt').getAllKeys(IDBKeyRange.upperBound(cutoff, true))
+  );
+  await Promise.all(expiredIds.map(id => deleteSession(id as string)));
+  const expiredClips = await withStore<IDBValidKey[]>('readonly', store =>
+    store.index('storedAt').getAllKeys(IDBKeyRange.upperBound(cutoff, true)),
+    SPEECH_STORE
+  );
+  await Promise.all(expiredClips.map(key => withStore('readwrite', store => store.delete(key), SPEECH_STORE)));
+  return expiredIds.length;
+};
+
+export const saveSpeechClip = async (key: string, entryId: string, clip: SpeechClip): Promise<void> => {
+  const payload = await encryptBytes(requireKey(), clip.data);
+  const stored: StoredSpeech = { key, entryId, raw: clip.raw, storedAt: new Date(), ...payload };
+  await withStore('readwrite', store => store.put(stored), SPEECH_STORE);
+
+  // Oldest clips go first once the store is full
+  const keys = await withStore<IDBValidKey[]>('readonly', store => store.index('storedAt').getAllKeys(), SPEECH_STORE);
+  const excess = keys.slice(0, Math.max(0, keys.length - MAX_STORED_CLIPS));
+  await Promise.all(excess.map(k => withStore('readwrite', store => store.delete(k), SPEECH_STORE)));
+};
+
+export const getSpeechClip = async (key: string): Promise<(SpeechClip & { entryId: string }) | undefined> => {
+  const cryptoKey = requireKey();
+  const stored = await withStore<StoredSpeech | undefined>('readonly', store => store.get(key), SPEECH_STORE);
+  return stored ? { data: await decryptBytes(cryptoKey, stored), raw: stored.raw, entryId: stored.entryId } : undefined;
+};
+
+export const deleteSpeechClipsForEntry = async (entryId: string): Promise<void> => {
+  const keys = await withStore<IDBValidKey[]>('readonly', store => store.index('entryId').getAllKeys(entryId), SPEECH_STORE);
+  await Promise.all(keys.map(k => withStore('readwrite', store => store.delete(k), SPEECH_STORE)));
+};
+
+// Panic wipe: drop the whole database, not just the records
+export const wipeAllSessions = async (): Promise<void> => {
+  storageKey = null;
+  clipIndexKey = null;
+  if (dbPromise) {
+    const db = await dbPromise.catch(() => null);
+    db?.close();
+    dbPromise = null;
+  }
+  await new Promise<void>((resolve, reject) => {
+    const req = indexedDB.deleteDatabase(DB_NAME);
+    req.onsuccess = () => resolve();
+    req.onerror = () => reject(req.error);
+    // Another tab holding the database open; deletion completes once it closes
+    req.onblocked = () => resolve();
+  });
+};
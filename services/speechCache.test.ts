@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { speechCacheKey } from './speechCache';
+import { setStorageKey } from './sessionStore';
+import { deriveKey, importHmacKey, randomBytes } from './vaultCrypto';
+
+const unlock = async () => {
+  const key = await deriveKey('correct horse', randomBytes(16));
+  setStorageKey(key, await importHmacKey(randomBytes(32).buffer));
+};
+
+const sha256Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+describe('speechCacheKey', () => {
+  afterEach(() => setStorageKey(null));
+
+  it('is stable within one vault and differs per voice, language and style', async () => {
+    await unlock();
+    const key = await speechCacheKey('Take 500 mg', 'Kore', 'es-ES');
+    expect(await speechCacheKey('Take 500 mg', 'Kore', 'es-ES')).toBe(key);
+    expect(await speechCacheKey('Take 500 mg', 'Puck', 'es-ES')).not.toBe(key);
+    expect(await speechCacheKey('Take 500 mg', 'Kore', 'fr-FR')).not.toBe(key);
+    expect(await speechCacheKey('Take 500 mg', 'Kore', 'es-ES', 'Slowly:')).not.toBe(key);
+  });
+
+  it('cannot be confirmed from a guessed phrase without the vault secret', async () => {
+    await unlock();
+    const key = await speechCacheKey('You have HIV', 'Kore', 'en-US');
+    expect(key).not.toBe(await sha256Hex(JSON.stringify(['You have HIV', 'Kore', 'en-US', ''])));
+    await unlock();
+    expect(await speechCacheKey('You have HIV', 'Kore', 'en-US')).not.toBe(key);
+  });
+
+  it('rejects while the vault is locked', async () => {
+    await expect(speechCacheKey('Hello', 'Kore', 'en-US')).rejects.toThrow('locked');
+  });
+});
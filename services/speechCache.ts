@@ -0,0 +1,104 @@
+import { decodePcmAudio, pcmToAudioBuffer } from './audioUtils';
+import { deleteSpeechClipsForEntry, getSpeechClip, saveSpeechClip, SpeechClip, speechClipKey } from './sessionStore';
+
+// LRU cache of synthesized speech so replaying a translation costs no quota and starts instantly.
+// Raw PCM (or the encoded clip) is kept together with its decoded AudioBuffer; persistence to
+// IndexedDB is opt-in and encrypted with the vault key.
+
+interface CachedSpeech extends SpeechClip {
+  entryId: string;
+  buffer?: AudioBuffer;
+}
+
+export const SPEECH_CACHE_LIMITS = {
+  maxEntries: 40,
+  // Raw data plus decoded float samples
+  maxBytes: 32 * 1024 * 1024,
+};
+
+const PERSIST_KEY = 'speech_cache_persist';
+
+// Map iteration order doubles as recency: the first key is the least recently used
+const memory = new Map<string, CachedSpeech>();
+
+const sizeOf = (clip: CachedSpeech) =>
+  clip.data.byteLength + (clip.buffer ? clip.buffer.length * clip.buffer.numberOfChannels * 4 : 0);
+
+const evict = () => {
+  let total = 0;
+  memory.forEach(clip => (total += sizeOf(clip)));
+  for (const [key, clip] of memory) {
+    if (memory.size <= SPEECH_CACHE_LIMITS.maxEntries && total <= SPEECH_CACHE_LIMITS.maxBytes) break;
+    memory.delete(key);
+    total -= sizeOf(clip);
+  }
+};
+
+const touch = (key: string, clip: CachedSpeech) => {
+  memory.delete(key);
+  memory.set(key, clip);
+};
+
+export const isSpeechPersistenceEnabled = () => localStorage.getItem(PERSIST_KEY) === 'true';
+
+export const setSpeechPersistence = (enabled: boolean) => {
+  localStorage.setItem(PERSIST_KEY, String(enabled));
+};
+
+// The style changes the delivery, so clips spoken in another style are a different entry.
+// Rejects while the vault is locked; playback then falls back to the browser voice.
+export async function speechCacheKey(text: string, voice: string, lang: string, style = ''): Promise<string> {
+  return speechClipKey(JSON.stringify([text, voice, lang, style]));
+}
+
+// Memory first, then the encrypted store; storage errors (e.g. locked vault) count as a miss
+export async function getCachedSpeech(key: string): Promise<CachedSpeech | null> {
+  const hit = memory.get(key);
+  if (hit) {
+    touch(key, hit);
+    return hit;
+  }
+  if (!isSpeechPersistenceEnabled()) return null;
+  try {
+    const stored = await getSpeechClip(key);
+    if (!stored) return null;
+    const clip: CachedSpeech = { ...stored };
+    touch(key, clip);
+    evict();
+    return clip;
+  } catch {
+    return null;
+  }
+}
+
+export function putCachedSpeech(key: string, entryId: string, clip: SpeechClip) {
+  touch(key, { ...clip, entryId });
+  evict();
+  if (isSpeechPersistenceEnabled()) {
+    saveSpeechClip(key, entryId, clip).catch(err => console.error("Could not persist speech clip", err));
+  }
+}
+
+// Decoded once and kept with the clip
+export async function decodeCachedSpeech(clip: CachedSpeech, ctx: AudioContext): Promise<AudioBuffer> {
+  if (!clip.buffer) {
+    clip.buffer = clip.raw ? pcmToAudioBuffer(clip.data, ctx) : await decodePcmAudio(clip.data, ctx);
+    evict();
+  }
+  return clip.buffer;
+}
+
+// Called when an entry's text changes so stale audio can never be replayed for it
+export function invalidateEntrySpeech(entryId: string) {
+  for (const [key, clip] of memory) {
+    if (clip.entryId === entryId) memory.delete(key);
+  }
+  if (isSpeechPersistenceEnabled()) {
+    deleteSpeechClipsForEntry(entryId).catch(err => console.error("Could not remove speech clips", err));
+  }
+}
+
+// On lock and panic wipe: audio of the conversation must not outlive access to it
+export function clearSpeechCache() {
+  memory.clear();
+}
@@ -0,0 +1,430 @@
+import { LANGUAGES } from '../types';
+import { AudioCapture, createMicrophoneCapture, isAudioCaptureSupported } from './audioCapture';
+import { encodeWav, resampleAudio } from './audioUtils';
+import { transcribeAudio } from './geminiService';
+import { field } from './responseFields';
+import { TranslationError } from './translationErrors';
+import { createVoiceActivityDetector, VadSettings, VoiceActivityDetector } from './voiceActivity';
+
+// Speech-to-text engines behind one interface. `webspeech` recognizes in the browser and gives
+// interim results; `gemini` and `whisper` capture PCM, cut it into utterances at pauses and send
+// each one for transcription, which works in browsers without the Web Speech API. Both run the
+// microphone through voice activity detection for the level meter, mic failure detection and
+// segmentation; with Web Speech a detected pause finalizes the recognition result.
+//   STT_ENGINE    webspeech | gemini | whisper (default: webspeech where supported, else gemini)
+//   STT_ENDPOINT  base URL of a Whisper-compatible API, e.g. https://host/v1 (POST /audio/transcriptions)
+//   STT_MODEL     model name sent to that endpoint (default whisper-1)
+
+export type SttEngineId = 'webspeech' | 'gemini' | 'whisper';
+
+export interface SttCallbacks {
+  // `lang` is the language the text was recognized in, which may lag behind a just-changed setting
+  onResult: (text: string, isFinal: boolean, lang: string) => void;
+  onError: (error: string) => void;
+  onListeningChange: (listening: boolean) => void;
+  // Input level (RMS) for the meter; 0 when not capturing
+  onLevel: (level: number) => void;
+}
+
+export interface SttEngine {
+  readonly id: SttEngineId;
+  setLang(lang: string): void;
+  setVad(settings: VadSettings): void;
+  start(): void;
+  // Speech already captured is still recognized and delivered
+  stop(): void;
+  dispose(): void;
+}
+
+// Transcribes one mono WAV segment; empty text means no speech
+export type Transcriber = (wav: ArrayBuffer, lang: string, signal: AbortSignal) => Promise<string>;
+
+// The parts of the Web Speech API used here; TypeScript's DOM lib only declares the result lists
+interface SpeechRecognitionEvent extends Event {
+  readonly resultIndex: number;
+  readonly results: SpeechRecognitionResultList;
+}
+
+interface SpeechRecognitionErrorEvent extends Event {
+  readonly error: string;
+}
+
+interface SpeechRecognition extends EventTarget {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onstart: ((event: Event) => void) | null;
+  onend: ((event: Event) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onresult: ((event: SpeechRecognitionEvent) => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+type SpeechRecognitionConstructor = new () => SpeechRecognition;
+
+const speechRecognitionConstructor = (): SpeechRecognitionConstructor | undefined => {
+  const speechWindow = window as Window & {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition;
+};
+
+export const isWebSpeechSupported = () =>
+  typeof window !== 'undefined' && Boolean(speechRecognitionConstructor());
+
+interface VadCapture {
+  // false when capture could not start
+  ready: Promise<boolean>;
+  flush(): void;
+  setSettings(settings: VadSettings): void;
+  close(): void;
+}
+
+interface VadCaptureHandlers {
+  onSegment: (samples: Float32Array, sampleRate: number) => void;
+  onStartFailed: (error: string) => void;
+  onInterrupted: () => void;
+}
+
+// Capture fed through voice activity detection; errors use the Web Speech error names
+const openVadCapture = (
+  createCapture: () => AudioCapture,
+  settings: VadSettings,
+  callbacks: SttCallbacks,
+  handlers: VadCaptureHandlers
+): VadCapture => {
+  const capture = createCapture();
+  let current = settings;
+  let vad: VoiceActivityDetector | null = null;
+  let closed = false;
+
+  const onFrame = (frame: Float32Array) => {
+    if (closed) return;
+    vad ??= createVoiceActivityDetector(capture.sampleRate, current, {
+      onSegment: samples => handlers.onSegment(samples, capture.sampleRate),
+      onLevel: callbacks.onLevel,
+      onSilentInput: () => callbacks.onError('mic-silent'),
+    });
+    vad.push(frame);
+  };
+
+  const ready = capture.start(onFrame, () => {
+    if (!closed) handlers.onInterrupted();
+  }).then(
+    () => !closed,
+    (error: unknown) => {
+      if (closed) return false;
+      console.error("Audio capture error:", error);
+      handlers.onStartFailed(error instanceof Error && error.name === 'NotAllowedError' ? 'not-allowed' : 'audio-capture');
+      return false;
+    }
+  );
+
+  return {
+    ready,
+    flush: () => vad?.flush(),
+    setSettings(next) {
+      current = next;
+      vad?.setSettings(next);
+    },
+    close() {
+      closed = true;
+      capture.stop();
+      callbacks.onLevel(0);
+    },
+  };
+};
+
+// `createCapture` feeds the level meter and pause detection; recognition itself uses the browser's own capture
+export function createWebSpeechEngine(
+  initialLang: string,
+  initialVad: VadSettings,
+  callbacks: SttCallbacks,
+  createCapture: (() => AudioCapture) | null = isAudioCaptureSupported() ? createMicrophoneCapture : null
+): SttEngine {
+  const Recognition = speechRecognitionConstructor();
+  if (!Recognition) throw new Error("Speech recognition not supported in this browser.");
+  let lang = initialLang;
+  let vad = initialVad;
+  let recognition: SpeechRecognition | null = null;
+  // The instance holding the microphone, from its onstart to its onend; may be a replaced one still finishing
+  let active: SpeechRecognition | null = null;
+  let shouldBeListening = false;
+  let monitor: VadCapture | null = null;
+
+  const closeMonitor = () => {
+    monitor?.close();
+    monitor = null;
+  };
+
+  const openMonitor = () => {
+    if (!createCapture || monitor) return;
+    const current = openVadCapture(createCapture, vad, callbacks, {
+      // A pause ends the utterance: finalize it now, onend restarts recognition
+      onSegment: () => {
+        if (shouldBeListening) recognition?.stop();
+      },
+      // Recognition reports its own capture errors; it just runs without a meter
+      onStartFailed: error => {
+        console.warn("Input level monitoring unavailable:", error);
+        // The stream may have opened before the worklet failed; release it so the mic indicator goes off
+        current.close();
+        if (monitor === current) monitor = null;
+      },
+      onInterrupted: () => fail('audio-capture'),
+    });
+    monitor = current;
+  };
+
+  // A missing or disconnected microphone will not come back by restarting
+  const fail = (error: string) => {
+    shouldBeListening = false;
+    closeMonitor();
+    recognition?.stop();
+    callbacks.onError(error);
+  };
+
+  const setup = () => {
+    const instance = new Recognition();
+    instance.continuous = true;
+    instance.interimResults = true;
+    instance.lang = lang;
+
+    instance.onstart = () => {
+      active = instance;
+      callbacks.onListeningChange(true);
+    };
+
+    instance.onend = () => {
+      if (active === instance) active = null;
+      // A replaced instance (language switch) hands the microphone to the current one instead of restarting
+      if (recognition !== instance) {
+        if (shouldBeListening && !active) start();
+        return;
+      }
+      // Auto-restart if it was stopped by the browser but the user still wants to listen
+      if (shouldBeListening) {
+        try {
+          instance.start();
+          return;
+        } catch (e) {
+          console.warn("Could not auto-restart recognition", e);
+        }
+      }
+      callbacks.onListeningChange(false);
+    };
+
+    instance.onerror = event => {
+      // Harmless: no-speech ends a quiet session and is restarted, aborted follows our own stop()
+      if (event.error === 'no-speech' || event.error === 'aborted') {
+        console.warn("Recognition warning:", event.error);
+        return;
+      }
+      console.error("Speech Recognition Error:", event.error);
+      if (event.error === 'audio-capture' || event.error === 'not-allowed') {
+        fail(event.error);
+      } else {
+        callbacks.onError(event.error);
+      }
+    };
+
+    instance.onresult = event => {
+      let interimTranscript = '';
+      let finalTranscript = '';
+
+      for (let i = event.resultIndex; i < event.results.length; ++i) {
+        if (event.results[i].isFinal) {
+          finalTranscript += event.results[i][0].transcript;
+        } else {
+          interimTranscript += event.results[i][0].transcript;
+        }
+      }
+
+      if (finalTranscript) {
+        callbacks.onResult(finalTranscript.trim(), true, instance.lang);
+      } else if (interimTranscript) {
+        callbacks.onResult(interimTranscript.trim(), false, instance.lang);
+      }
+    };
+
+    recognition = instance;
+    return instance;
+  };
+
+  const start = () => {
+    try {
+      recognition?.start();
+    } catch (e) {
+      // Recognition might already be starting
+    }
+  };
+
+  setup();
+
+  return {
+    id: 'webspeech',
+    setLang(next) {
+      if (next === lang) return;
+      lang = next;
+      // stop() rather than abort() so a final result already in progress is still delivered
+      // The new instance starts from the previous one's onend, once the microphone is released
+      const previous = recognition;
+      setup();
+      previous?.stop();
+      if (shouldBeListening && !active) start();
+    },
+    setVad(settings) {
+      vad = settings;
+      monitor?.setSettings(settings);
+    },
+    start() {
+      shouldBeListening = true;
+      openMonitor();
+      if (!active) start();
+    },
+    stop() {
+      shouldBeListening = false;
+      closeMonitor();
+      recognition?.stop();
+    },
+    dispose() {
+      shouldBeListening = false;
+      closeMonitor();
+      const previous = recognition;
+      recognition = null;
+      previous?.stop();
+    },
+  };
+}
+
+// Recognizers are trained on 16 kHz audio; anything more only inflates the upload
+const UPLOAD_SAMPLE_RATE = 16000;
+
+export function createSegmentEngine(
+  id: SttEngineId,
+  initialLang: string,
+  initialVad: VadSettings,
+  callbacks: SttCallbacks,
+  transcribe: Transcriber,
+  createCapture: () => AudioCapture = createMicrophoneCapture
+): SttEngine {
+  let lang = initialLang;
+  let vad = initialVad;
+  let session: VadCapture | null = null;
+  const controller = new AbortController();
+  // Keeps results in the order they were spoken
+  let chain = Promise.resolve();
+
+  const transcribeSegment = (samples: Float32Array, sampleRate: number) => {
+    const segmentLang = lang;
+    const wav = encodeWav(resampleAudio(samples, sampleRate, UPLOAD_SAMPLE_RATE), UPLOAD_SAMPLE_RATE);
+    const pending = transcribe(wav, segmentLang, controller.signal).then(text => ({ text }), error => ({ error }));
+    chain = chain.then(async () => {
+      const result = await pending;
+      if (controller.signal.aborted) return;
+      if ('error' in result) {
+        console.error("Transcription error:", result.error);
+        callbacks.onError('transcription-failed');
+      } else if (result.text) {
+        callbacks.onResult(result.text, true, segmentLang);
+      }
+    });
+  };
+
+  const stop = () => {
+    if (!session) return;
+    session.flush();
+    session.close();
+    session = null;
+    callbacks.onListeningChange(false);
+  };
+
+  return {
+    id,
+    setLang(next) {
+      // The utterance in progress belongs to the previous language
+      session?.flush();
+      lang = next;
+    },
+    setVad(settings) {
+      vad = settings;
+      session?.setSettings(settings);
+    },
+    start() {
+      if (session) return;
+      const current = openVadCapture(createCapture, vad, callbacks, {
+        onSegment: transcribeSegment,
+        onStartFailed: error => {
+          if (session !== current) return;
+          session = null;
+          current.close();
+          callbacks.onError(error);
+        },
+        onInterrupted: () => {
+          if (session !== current) return;
+          stop();
+          callbacks.onError('audio-capture');
+        },
+      });
+      session = current;
+      current.ready.then(ok => {
+        if (ok && session === current) callbacks.onListeningChange(true);
+      });
+    },
+    stop,
+    dispose() {
+      stop();
+      controller.abort();
+    },
+  };
+}
+
+const languageName = (lang: string) => LANGUAGES.find(l => l.code === lang)?.name ?? lang;
+
+export const geminiTranscriber: Transcriber = (wav, lang, signal) => transcribeAudio(wav, languageName(lang), signal);
+
+// OpenAI-style transcription API, as served by Whisper servers such as faster-whisper or whisper.cpp
+export const whisperTranscriber: Transcriber = async (wav, lang, signal) => {
+  const endpoint = (process.env.STT_ENDPOINT || '').replace(/\/+$/, '');
+  const form = new FormData();
+  form.append('file', new Blob([wav], { type: 'audio/wav' }), 'utterance.wav');
+  form.append('model', process.env.STT_MODEL || 'whisper-1');
+  form.append('language', lang.split('-')[0]);
+  form.append('response_format', 'json');
+
+  const response = await fetch(`${endpoint}/audio/transcriptions`, { method: 'POST', body: form, signal });
+  if (!response.ok) throw new Error(`HTTP ${response.status} from /audio/transcriptions`);
+  const data: unknown = await response.json();
+  // Empty text means no speech; no text at all is a server that does not speak this API
+  const text = field(data, 'text');
+  if (typeof text !== 'string') throw new TranslationError('empty', 'Transcription response has no text field');
+  return text.trim();
+};
+
+export const getSttEngineId = (): SttEngineId => {
+  const configured = process.env.STT_ENGINE as SttEngineId | undefined;
+  if (configured === 'gemini' || configured === 'whisper') return configured;
+  if (configured === 'webspeech' || isWebSpeechSupported()) return 'webspeech';
+  return 'gemini';
+};
+
+// Lets tests and embedders inject an engine, e.g. a segment engine fed by createFileCapture
+export type SttEngineFactory = (lang: string, vad: VadSettings, callbacks: SttCallbacks) => SttEngine;
+
+export const createSttEngine: SttEngineFactory = (lang, vad, callbacks) => {
+  const id = getSttEngineId();
+  if (id !== 'webspeech' && !isAudioCaptureSupported()) {
+    throw new Error("Audio capture is not supported in this browser.");
+  }
+  switch (id) {
+    case 'webspeech':
+      if (!isWebSpeechSupported()) throw new Error("Speech recognition not supported in this browser.");
+      return createWebSpeechEngine(lang, vad, callbacks);
+    case 'whisper':
+      return createSegmentEngine(id, lang, vad, callbacks, whisperTranscriber);
+    default:
+      return createSegmentEngine(id, lang, vad, callbacks, geminiTranscriber);
+  }
+};
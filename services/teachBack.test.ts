@@ -0,0 +1,80 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { assessTeachBack } from './teachBack';
+import { setTranslationProvider } from './translationService';
+import { mockProvider } from './mockService';
+import { TeachBackOutcome } from '../types';
+
+// A provider whose model always returns the given verdict, so only the fact check can change it
+const modelSays = (outcome: TeachBackOutcome) => setTranslationProvider({
+  ...mockProvider,
+  generate: async () => JSON.stringify({ outcome, gaps: [], explanation: 'Model verdict' }),
+});
+
+describe('assessTeachBack', () => {
+  afterEach(() => {
+    setTranslationProvider(null);
+    vi.restoreAllMocks();
+  });
+
+  it('accepts numbers the instruction spelled out or stated as a frequency', async () => {
+    modelSays('understood');
+    expect(await assessTeachBack('Take 1 tablet twice a day for 7 days', 'I take 1 tablet 2 times a day for 7 days', 'en-US'))
+      .toEqual({ outcome: 'understood', gaps: [], explanation: 'Model verdict' });
+    expect((await assessTeachBack('Take one tablet twice a day', 'One tablet, 2 times a day', 'en-US')).outcome)
+      .toBe('understood');
+  });
+
+  it('accepts an equivalent frequency or duration', async () => {
+    modelSays('understood');
+    expect((await assessTeachBack('Take 400 mg every 12 hours for 2 weeks', '400 mg twice a day for 14 days', 'en-US')).outcome)
+      .toBe('understood');
+  });
+
+  it('accepts the same facts in other languages', async () => {
+    modelSays('understood');
+    expect((await assessTeachBack('Tome 500 mg dos veces al día durante 7 días', 'Tomo 500 miligramos 2 veces al día por siete días', 'es-ES')).outcome)
+      .toBe('understood');
+    expect((await assessTeachBack('Принимайте 500 мг два раза в день', 'По 500 мг 2 раза в день', 'ru-RU')).outcome)
+      .toBe('understood');
+  });
+
+  it('marks a conflicting dose, frequency or duration as not understood', async () => {
+    modelSays('understood');
+    const dose = await assessTeachBack('Take 500 mg twice a day', 'Take 50 mg twice a day', 'en-US');
+    expect(dose.outcome).toBe('not-understood');
+    expect(dose.gaps).toEqual(['Not repeated: 500 mg', 'Repeated differently from the instruction: 50 mg']);
+
+    const frequency = await assessTeachBack('Take 500 mg twice a day', 'Take 500 mg 3 times a day', 'en-US');
+    expect(frequency.outcome).toBe('not-understood');
+    expect(frequency.gaps).toContain('Repeated differently from the instruction: 3/day');
+
+    const duration = await assessTeachBack('Take it for 7 days', 'Take it for 10 days', 'en-US');
+    expect(duration.outcome).toBe('not-understood');
+  });
+
+  it('marks a reply that leaves a fact out as partial', async () => {
+    modelSays('understood');
+    const result = await assessTeachBack('Take 500 mg twice a day for 7 days', 'Take 500 mg twice a day', 'en-US');
+    expect(result).toEqual({ outcome: 'partial', gaps: ['Not repeated: 7 d'], explanation: 'Model verdict' });
+  });
+
+  it('never improves on the model verdict', async () => {
+    modelSays('not-understood');
+    expect((await assessTeachBack('Take 500 mg twice a day', 'Take 500 mg twice a day', 'en-US')).outcome).toBe('not-understood');
+  });
+
+  it('falls back to wording overlap without a model', async () => {
+    setTranslationProvider(mockProvider);
+    const result = await assessTeachBack('Take 500 mg twice a day', 'Take 500 mg twice a day', 'en-US');
+    expect(result.outcome).toBe('understood');
+    expect(result.explanation).toMatch(/wording overlap/);
+  });
+
+  it('falls back to wording overlap when the model call fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    setTranslationProvider({ ...mockProvider, generate: async () => 'not json' });
+    const result = await assessTeachBack('Take 500 mg twice a day', 'I do not know', 'en-US');
+    expect(result.outcome).toBe('not-understood');
+    expect(result.explanation).toMatch(/wording overlap/);
+  });
+});
@@ -0,0 +1,115 @@
+import { TeachBackOutcome } from '../types';
+import { CallOptions } from './callPolicy';
+import { extractClinicalFacts } from './dosageGuard';
+import { buildTeachBackInstruction } from './medicalPrompt';
+import { textSimilarity } from './qualityCheck';
+import { generateMedicalJson, supportsGeneration } from './translationService';
+
+// Teach-back: after a key instruction the patient is asked, in their language, to repeat it in their
+// own words. The reply is judged by the model where the provider has one, and always against the
+// doses, frequencies and durations in the instruction, which can only make the outcome worse.
+
+// Vetted prompts, spoken to the patient without going through the translation model
+export const TEACH_BACK_PROMPTS: Record<string, string> = {
+  'en-US': 'To make sure I explained this clearly, please tell me in your own words what you need to do.',
+  'es-ES': 'Para asegurarme de que me expliqué bien, por favor dígame con sus propias palabras lo que tiene que hacer.',
+  'fr-FR': 'Pour être sûr de m’être bien expliqué, pouvez-vous me dire avec vos propres mots ce que vous devez faire ?',
+  'zh-CN': '为了确认我解释清楚了，请用您自己的话告诉我您需要怎么做。',
+  'vi-VN': 'Để chắc chắn tôi đã giải thích rõ, xin hãy nói lại bằng lời của bạn những gì bạn cần làm.',
+  'ar-SA': 'للتأكد من أنني شرحت ذلك بوضوح، من فضلك أخبرني بكلماتك الخاصة بما يجب عليك فعله.',
+  'hi-IN': 'यह पक्का करने के लिए कि मैंने ठीक से समझाया, कृपया अपने शब्दों में बताइए कि आपको क्या करना है।',
+  'ru-RU': 'Чтобы убедиться, что я объяснил понятно, пожалуйста, расскажите своими словами, что вам нужно делать.',
+};
+
+export const TEACH_BACK_LABELS: Record<TeachBackOutcome, string> = {
+  understood: 'Understood',
+  partial: 'Partially understood',
+  'not-understood': 'Not understood',
+};
+
+export interface TeachBackAssessment {
+  outcome: TeachBackOutcome;
+  gaps: string[];
+  explanation: string;
+}
+
+const OUTCOMES: TeachBackOutcome[] = ['understood', 'partial', 'not-understood'];
+const worse = (a: TeachBackOutcome, b: TeachBackOutcome) => (OUTCOMES.indexOf(a) >= OUTCOMES.indexOf(b) ? a : b);
+
+// Fallback thresholds for providers without a model (mock) or when the model call fails
+const UNDERSTOOD_SIMILARITY = 0.55;
+const PARTIAL_SIMILARITY = 0.3;
+
+// Equivalent spellings of one fact compare equal: "q12h" is "2/day" and "2 w" is "14 d"
+const canonicalFact = (fact: string) => {
+  const hours = /^q(\d+(?:\.\d+)?)h$/.exec(fact);
+  if (hours && 24 % Number(hours[1]) === 0) return `${24 / Number(hours[1])}/day`;
+  const weeks = /^(\d+(?:\.\d+)?) w$/.exec(fact);
+  if (weeks) return `${Number(weeks[1]) * 7} d`;
+  return fact;
+};
+
+// Facts the reply leaves out, and facts it states differently from the instruction. A number the
+// instruction has no fact of that kind for, such as "1 tablet", is left to the model.
+const checkKeyFacts = (instruction: string, reply: string, lang: string) => {
+  const expected = extractClinicalFacts(instruction, lang);
+  const said = extractClinicalFacts(reply, lang);
+  const missing: string[] = [];
+  const conflicting: string[] = [];
+  for (const kind of ['doses', 'frequencies', 'durations'] as const) {
+    const expectedFacts = expected[kind].map(canonicalFact);
+    const saidFacts = said[kind].map(canonicalFact);
+    missing.push(...expected[kind].filter((_, i) => !saidFacts.includes(expectedFacts[i])));
+    if (expectedFacts.length) conflicting.push(...said[kind].filter((_, i) => !expectedFacts.includes(saidFacts[i])));
+  }
+  return {
+    outcome: conflicting.length ? 'not-understood' as const : missing.length ? 'partial' as const : 'understood' as const,
+    gaps: [
+      ...missing.map(fact => `Not repeated: ${fact}`),
+      ...conflicting.map(fact => `Repeated differently from the instruction: ${fact}`),
+    ],
+  };
+};
+
+const parseAssessment = (value: unknown): TeachBackAssessment | null => {
+  const v = value as Partial<TeachBackAssessment> | null;
+  if (!v || !OUTCOMES.includes(v.outcome as TeachBackOutcome)) return null;
+  return {
+    outcome: v.outcome as TeachBackOutcome,
+    gaps: Array.isArray(v.gaps) ? v.gaps.filter((g): g is string => typeof g === 'string') : [],
+    explanation: typeof v.explanation === 'string' ? v.explanation : '',
+  };
+};
+
+const assessBySimilarity = (instruction: string, reply: string): TeachBackAssessment => {
+  const score = textSimilarity(instruction, reply);
+  const outcome = score >= UNDERSTOOD_SIMILARITY ? 'understood' : score >= PARTIAL_SIMILARITY ? 'partial' : 'not-understood';
+  return { outcome, gaps: [], explanation: `Estimated from wording overlap (${Math.round(score * 100)}%); review manually.` };
+};
+
+// `instruction` and `reply` are both in `lang`, the provider's language
+export async function assessTeachBack(
+  instruction: string,
+  reply: string,
+  lang: string,
+  options: CallOptions = {}
+): Promise<TeachBackAssessment> {
+  let assessment: TeachBackAssessment | null = null;
+  if (supportsGeneration()) {
+    try {
+      const text = `INSTRUCTION: ${JSON.stringify(instruction)}\nREPLY: ${JSON.stringify(reply)}`;
+      assessment = parseAssessment(await generateMedicalJson(buildTeachBackInstruction(lang), text, options));
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error("Teach-back assessment failed, using wording overlap", error);
+    }
+  }
+  assessment ??= assessBySimilarity(instruction, reply);
+
+  const facts = checkKeyFacts(instruction, reply, lang);
+  return {
+    outcome: worse(assessment.outcome, facts.outcome),
+    gaps: [...new Set([...assessment.gaps, ...facts.gaps])],
+    explanation: assessment.explanation,
+  };
+}
@@ -0,0 +1,112 @@
+// Multi-pattern matcher (Aho-Corasick) for highlighting terms in any script.
+// Regex `\b` only understands ASCII word characters, so boundaries are checked
+// against Unicode letters instead, and skipped entirely for Han text which has no spaces.
+
+export interface TermMatch<T> {
+  start: number;
+  end: number;
+  text: string;
+  value: T;
+}
+
+export interface TermMatcher<T> {
+  findAll: (text: string) => TermMatch<T>[];
+}
+
+interface MatcherNode<T> {
+  next: Map<string, number>;
+  fail: number;
+  // Patterns ending at this node (own and inherited through fail links), as [length, value]
+  outputs: Array<[number, T]>;
+}
+
+const WORD_CHAR = /[\p{L}\p{M}\p{N}]/u;
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+const fold = (text: string) => {
+  const lower = text.toLowerCase();
+  // Some characters change length when lowercased; keep offsets aligned with the original
+  return lower.length === text.length ? lower : text;
+};
+
+// Arabic writes conjunctions and prepositions attached to the next word (و، ف، ب، ل، ك)
+const ARABIC_PROCLITIC = /(?:^|[^\p{L}\p{M}\p{N}])[وفبلك]{1,2}$/u;
+const ARABIC_SCRIPT = /\p{Script=Arabic}/u;
+
+const needsBoundary = (ch: string) => !UNSPACED_SCRIPT.test(ch);
+
+export const buildTermMatcher = <T>(patterns: Array<[string, T]>): TermMatcher<T> => {
+  const nodes: MatcherNode<T>[] = [{ next: new Map(), fail: 0, outputs: [] }];
+
+  for (const [pattern, value] of patterns) {
+    const key = fold(pattern.trim());
+    if (!key) continue;
+    let state = 0;
+    for (let i = 0; i < key.length; i++) {
+      const ch = key[i];
+      let child = nodes[state].next.get(ch);
+      if (child === undefined) {
+        child = nodes.length;
+        nodes.push({ next: new Map(), fail: 0, outputs: [] });
+        nodes[state].next.set(ch, child);
+      }
+      state = child;
+    }
+    nodes[state].outputs.push([key.length, value]);
+  }
+
+  // Breadth-first pass wires fail links and merges outputs of suffix states
+  const queue: number[] = [...nodes[0].next.values()];
+  while (queue.length) {
+    const state = queue.shift()!;
+    for (const [ch, child] of nodes[state].next) {
+      let fail = nodes[state].fail;
+      while (fail !== 0 && !nodes[fail].next.has(ch)) fail = nodes[fail].fail;
+      const target = nodes[fail].next.get(ch);
+      nodes[child].fail = target !== undefined && target !== child ? target : 0;
+      nodes[child].outputs.push(...nodes[nodes[child].fail].outputs);
+      queue.push(child);
+    }
+  }
+
+  const isBoundary = (text: string, start: number, end: number) => {
+    const first = text[start];
+    const last = text[end - 1];
+    if (needsBoundary(first) && start > 0 && WORD_CHAR.test(text[start - 1])) {
+      const isProclitic = ARABIC_SCRIPT.test(first) && ARABIC_PROCLITIC.test(text.slice(Math.max(0, start - 3), start));
+      if (!isProclitic) return false;
+    }
+    if (needsBoundary(last) && end < text.length && WORD_CHAR.test(text[end])) return false;
+    return true;
+  };
+
+  const findAll = (text: string): TermMatch<T>[] => {
+    const haystack = fold(text);
+    const candidates: TermMatch<T>[] = [];
+    let state = 0;
+    for (let i = 0; i < haystack.length; i++) {
+      const ch = haystack[i];
+      while (state !== 0 && !nodes[state].next.has(ch)) state = nodes[state].fail;
+      state = nodes[state].next.get(ch) ?? 0;
+      for (const [length, value] of nodes[state].outputs) {
+        const start = i + 1 - length;
+        if (isBoundary(text, start, i + 1)) {
+          candidates.push({ start, end: i + 1, text: text.slice(start, i + 1), value });
+        }
+      }
+    }
+
+    // Keep leftmost-longest matches that do not overlap
+    candidates.sort((a, b) => a.start - b.start || b.end - a.end);
+    const matches: TermMatch<T>[] = [];
+    let cursor = 0;
+    for (const match of candidates) {
+      if (match.start < cursor) continue;
+      matches.push(match);
+      cursor = match.end;
+    }
+    return matches;
+  };
+
+  return { findAll };
+};
@@ -0,0 +1,145 @@
+import { TermCategory, TermEntry, LANGUAGES } from '../types';
+import { buildTermMatcher, TermMatch, TermMatcher } from './termMatcher';
+
+// Medical terminology lexicon: concepts with per-language surface forms, matched per language.
+//
+// JSON files are an array of { id, category, forms: { "<lang>": ["preferred", "synonym", ...] } }.
+// CSV files have a header row `id,category,<lang>,<lang>,...` with synonyms separated by `|`.
+
+export const TERM_CATEGORIES: TermCategory[] = ['drug', 'condition', 'procedure', 'anatomy'];
+
+export interface Lexicon {
+  entries: TermEntry[];
+  findTerms: (text: string, lang: string) => TermMatch<TermEntry>[];
+  // Preferred surface form of the concept in another language, if the lexicon has one
+  getEquivalent: (entry: TermEntry, lang: string) => string | undefined;
+}
+
+const SYNONYM_SEPARATOR = '|';
+
+const isCategory = (value: unknown): value is TermCategory =>
+  TERM_CATEGORIES.includes(value as TermCategory);
+
+const toForms = (value: unknown): string[] => {
+  const list = Array.isArray(value) ? value : typeof value === 'string' ? value.split(SYNONYM_SEPARATOR) : [];
+  return list.map(form => String(form).trim()).filter(Boolean);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateEntry = (raw: unknown, position: string): TermEntry => {
+  const entry = isRecord(raw) ? raw : {};
+  const id = typeof entry.id === 'string' ? entry.id.trim() : '';
+  if (!id) throw new Error(`Lexicon ${position} is missing an id.`);
+  const category = typeof entry.category === 'string' ? entry.category.trim().toLowerCase() : entry.category;
+  if (!isCategory(category)) {
+    throw new Error(`Lexicon term "${id}" has unknown category "${entry.category}" (expected ${TERM_CATEGORIES.join(', ')}).`);
+  }
+  const forms: Record<string, string[]> = {};
+  for (const [lang, value] of Object.entries(isRecord(entry.forms) ? entry.forms : {})) {
+    const list = toForms(value);
+    if (list.length) forms[lang] = list;
+  }
+  if (!Object.keys(forms).length) throw new Error(`Lexicon term "${id}" has no surface forms.`);
+  return { id, category, forms };
+};
+
+// Minimal RFC 4180 reader: quoted fields, doubled quotes, CRLF or LF line endings
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+export function parseLexiconJson(text: string): TermEntry[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Lexicon file is not valid JSON.');
+  }
+  if (!Array.isArray(data)) throw new Error('Lexicon JSON must be an array of terms.');
+  return data.map((raw, index) => validateEntry(raw, `entry ${index + 1}`));
+}
+
+export function parseLexiconCsv(text: string): TermEntry[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map(cell => cell.trim());
+  if (columns[0]?.toLowerCase() !== 'id' || columns[1]?.toLowerCase() !== 'category') {
+    throw new Error('Lexicon CSV must start with "id,category" followed by language columns.');
+  }
+  const langs = columns.slice(2);
+  const unknown = langs.filter(lang => !LANGUAGES.some(l => l.code === lang));
+  if (unknown.length) throw new Error(`Lexicon CSV has unknown language columns: ${unknown.join(', ')}.`);
+
+  return rows.map((cells, index) =>
+    validateEntry(
+      {
+        id: cells[0],
+        category: cells[1],
+        forms: Object.fromEntries(langs.map((lang, i) => [lang, cells[i + 2] ?? ''])),
+      },
+      `row ${index + 2}`
+    )
+  );
+}
+
+export function parseLexiconFile(fileName: string, text: string): TermEntry[] {
+  return /\.csv$/i.test(fileName) ? parseLexiconCsv(text) : parseLexiconJson(text);
+}
+
+export function createLexicon(entries: TermEntry[]): Lexicon {
+  // One automaton per language, built on first use
+  const matchers = new Map<string, TermMatcher<TermEntry>>();
+
+  const matcherFor = (lang: string) => {
+    let matcher = matchers.get(lang);
+    if (!matcher) {
+      matcher = buildTermMatcher(
+        entries.flatMap(entry => (entry.forms[lang] ?? []).map(form => [form, entry] as [string, TermEntry]))
+      );
+      matchers.set(lang, matcher);
+    }
+    return matcher;
+  };
+
+  return {
+    entries,
+    findTerms: (text, lang) => matcherFor(lang).findAll(text),
+    getEquivalent: (entry, lang) => entry.forms[lang]?.[0],
+  };
+}
@@ -0,0 +1,48 @@
+import { TranslationErrorKind, TranslationFailure } from '../types';
+
+const MESSAGES: Record<TranslationErrorKind, string> = {
+  network: 'Unable to reach the translation service. Check the connection and retry.',
+  auth: 'The translation service rejected the API credentials.',
+  quota: 'The translation service quota is exhausted. Try again shortly.',
+  safety: 'The translation was blocked by the service safety filters.',
+  empty: 'The translation service returned no text.',
+  timeout: 'The translation service took too long to respond.',
+  cancelled: 'The request was cancelled.',
+};
+
+export class TranslationError extends Error {
+  readonly kind: TranslationErrorKind;
+
+  constructor(kind: TranslationErrorKind, message: string = MESSAGES[kind]) {
+    super(message);
+    this.name = 'TranslationError';
+    this.kind = kind;
+  }
+
+  toFailure(): TranslationFailure {
+    return { kind: this.kind, message: MESSAGES[this.kind] };
+  }
+}
+
+const kindFromStatus = (status: number): TranslationErrorKind | null => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  return null;
+};
+
+// Map anything a provider may throw (SDK errors, fetch failures, aborts) onto a known kind
+export const toTranslationError = (error: unknown): TranslationError => {
+  if (error instanceof TranslationError) return error;
+
+  const e = error as { name?: string; status?: number; message?: string } | null;
+  const message = e?.message ?? String(error);
+  if (e?.name === 'AbortError' || e?.name === 'TimeoutError') {
+    return new TranslationError('timeout', message);
+  }
+  const statusKind = typeof e?.status === 'number' ? kindFromStatus(e.status) : null;
+  if (statusKind) return new TranslationError(statusKind, message);
+  if (/api key|permission|unauthori[sz]ed/i.test(message)) return new TranslationError('auth', message);
+  if (/quota|rate limit|resource.?exhausted/i.test(message)) return new TranslationError('quota', message);
+  return new TranslationError('network', message);
+};
@@ -0,0 +1,53 @@
+import { GlossaryEntry } from '../types';
+import { ContextTurn } from './conversationContext';
+
+export interface TranslationRequest {
+  text: string;
+  sourceLang: string;
+  targetLang: string;
+  // Facility glossary pairs that occur in this text; model-backed providers add them to the instruction
+  glossary?: GlossaryEntry[];
+  // Recent turns of the conversation, for reference only; the output covers `text` alone
+  context?: ContextTurn[];
+  // Streaming providers report the translation accumulated so far; may be called again from scratch after a retry
+  onPartial?: (partialText: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voice: string;
+  // Delivery instruction spoken to the TTS model before the text, e.g. "Say clearly and professionally:"
+  style?: string;
+  signal?: AbortSignal;
+}
+
+// Free-form task for the model behind the provider, e.g. assessing a teach-back
+export interface GenerationRequest {
+  systemInstruction: string;
+  text: string;
+  // Ask for a JSON response
+  json?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface ProviderCapabilities {
+  // Provider can synthesize speech itself; otherwise callers fall back to browser TTS
+  speech: boolean;
+  // Provider works without network access
+  offline: boolean;
+  // Provider delivers partial text through TranslationRequest.onPartial
+  streaming: boolean;
+}
+
+export interface TranslationProvider {
+  readonly id: string;
+  readonly capabilities: ProviderCapabilities;
+  // Rejects with a TranslationError; never resolves with an error message
+  translate(request: TranslationRequest): Promise<string>;
+  synthesizeSpeech(request: SpeechRequest): Promise<ArrayBuffer>;
+  // Optional: deliver speech as headerless 16-bit PCM pieces so playback can start before synthesis ends
+  streamSpeech?(request: SpeechRequest, onChunk: (pcm: ArrayBuffer) => void): Promise<void>;
+  // Optional: only providers backed by an instruction-following model can run structured tasks
+  generate?(request: GenerationRequest): Promise<string>;
+}
@@ -0,0 +1,103 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { translateMedicalText, setTranslationProvider } from './translationService';
+import { mockProvider } from './mockService';
+import { TranslationProvider, TranslationRequest } from './translationProvider';
+import { TranslationError } from './translationErrors';
+
+// Fast policy so retries and timeouts finish within the test
+const FAST = { timeoutMs: 200, retries: 2, baseDelayMs: 1, maxDelayMs: 2 };
+
+const providerThatThrows = (error: unknown): TranslationProvider & { calls: number } => {
+  const provider = {
+    ...mockProvider,
+    calls: 0,
+    translate: async () => {
+      provider.calls++;
+      throw error;
+    },
+  };
+  return provider;
+};
+
+describe('translateMedicalText', () => {
+  afterEach(() => {
+    setTranslationProvider(null);
+    vi.restoreAllMocks();
+  });
+
+  it('returns the provider translation', async () => {
+    setTranslationProvider(mockProvider);
+    expect(await translateMedicalText('Where does it hurt?', 'en-US', 'es-ES')).toEqual({
+      status: 'success',
+      text: '¿Dónde le duele?',
+      glossaryViolations: undefined,
+    });
+  });
+
+  it('reports facility glossary terms the translation did not use', async () => {
+    setTranslationProvider({ ...mockProvider, translate: async () => 'Tiene un ataque al corazón' });
+    const glossary = [{ id: 'g1', sourceLang: 'en-US', targetLang: 'es-ES', sourceTerm: 'heart attack', targetTerm: 'infarto', forbidden: [] }];
+    const result = await translateMedicalText('You had a heart attack', 'en-US', 'es-ES', { glossary });
+    expect(result.status).toBe('success');
+    expect(result.status === 'success' && result.glossaryViolations).toHaveLength(1);
+  });
+
+  it.each([
+    [{ status: 401, message: 'Unauthorized' }, 'auth'],
+    [{ status: 403, message: 'Forbidden' }, 'auth'],
+    [new Error('API key not valid. Please pass a valid API key.'), 'auth'],
+    [new TranslationError('safety'), 'safety'],
+    [new TranslationError('empty'), 'empty'],
+  ])('maps %o to a %s failure without retrying', async (error, kind) => {
+    const provider = providerThatThrows(error);
+    setTranslationProvider(provider);
+    const result = await translateMedicalText('Hello', 'en-US', 'es-ES', FAST);
+    expect(result.status === 'failure' && result.error.kind).toBe(kind);
+    expect(provider.calls).toBe(1);
+  });
+
+  it.each([
+    [new Error('fetch failed'), 'network'],
+    [{ status: 429, message: 'Too many requests' }, 'quota'],
+    [new Error('RESOURCE_EXHAUSTED: quota exceeded'), 'quota'],
+  ])('retries %o and then reports a %s failure', async (error, kind) => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const provider = providerThatThrows(error);
+    setTranslationProvider(provider);
+    const result = await translateMedicalText('Hello', 'en-US', 'es-ES', FAST);
+    expect(result.status === 'failure' && result.error.kind).toBe(kind);
+    expect(provider.calls).toBe(FAST.retries + 1);
+  });
+
+  it('never puts the error message in place of a translation', async () => {
+    setTranslationProvider(providerThatThrows({ status: 401, message: 'Unauthorized' }));
+    const result = await translateMedicalText('Hello', 'en-US', 'es-ES', FAST);
+    expect(result).toEqual({ status: 'failure', error: { kind: 'auth', message: expect.any(String) } });
+  });
+
+  it('reports cancelled when the caller aborts, even if the provider ignores the signal', async () => {
+    setTranslationProvider({ ...mockProvider, translate: () => new Promise<string>(() => {}) });
+    const controller = new AbortController();
+    const pending = translateMedicalText('Hello', 'en-US', 'es-ES', { ...FAST, signal: controller.signal });
+    controller.abort();
+    const result = await pending;
+    expect(result.status === 'failure' && result.error.kind).toBe('cancelled');
+  });
+
+  it('passes the abort signal to the provider', async () => {
+    let received: AbortSignal | undefined;
+    setTranslationProvider({
+      ...mockProvider,
+      translate: ({ signal }: TranslationRequest) => {
+        received = signal;
+        return new Promise<string>(() => {});
+      },
+    });
+    const controller = new AbortController();
+    const pending = translateMedicalText('Hello', 'en-US', 'es-ES', { ...FAST, signal: controller.signal });
+    await Promise.resolve();
+    controller.abort();
+    await pending;
+    expect(received?.aborted).toBe(true);
+  });
+});
@@ -0,0 +1,131 @@
+import { GlossaryEntry, TranslationResult } from '../types';
+import { TranslationProvider } from './translationProvider';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockService';
+import { httpProvider } from './httpService';
+import { TranslationError, toTranslationError } from './translationErrors';
+import { CallOptions, SPEECH_CALL_DEFAULTS, TRANSLATION_CALL_DEFAULTS, withCallPolicy } from './callPolicy';
+import { checkGlossaryCompliance, selectGlossaryEntries } from './glossary';
+import { ContextTurn } from './conversationContext';
+
+const PROVIDERS: Record<string, TranslationProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+  http: httpProvider,
+};
+
+let activeProvider: TranslationProvider | null = null;
+
+// Selected at build time through TRANSLATION_PROVIDER (gemini | mock | http)
+export const getTranslationProvider = (): TranslationProvider => {
+  if (!activeProvider) {
+    const id = process.env.TRANSLATION_PROVIDER || 'gemini';
+    activeProvider = PROVIDERS[id] ?? geminiProvider;
+  }
+  return activeProvider;
+};
+
+// Lets tests and embedders swap the provider without touching build config
+export const setTranslationProvider = (provider: TranslationProvider | null) => {
+  activeProvider = provider;
+};
+
+export interface TranslateOptions extends CallOptions {
+  // Full facility glossary; only the pairs that occur in the text are sent and checked
+  glossary?: GlossaryEntry[];
+  // Earlier turns of the conversation; see buildConversationContext
+  context?: ContextTurn[];
+  // Receives the partial translation as it streams in, when the provider supports it
+  onPartial?: (partialText: string) => void;
+}
+
+export async function translateMedicalText(
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  { glossary = [], context, onPartial, ...options }: TranslateOptions = {}
+): Promise<TranslationResult> {
+  const relevant = selectGlossaryEntries(glossary, text, sourceLang, targetLang);
+  try {
+    const translated = await withCallPolicy(
+      signal => getTranslationProvider().translate({ text, sourceLang, targetLang, glossary: relevant, context, onPartial, signal }),
+      TRANSLATION_CALL_DEFAULTS,
+      options
+    );
+    const glossaryViolations = checkGlossaryCompliance(relevant, translated);
+    return { status: 'success', text: translated, glossaryViolations: glossaryViolations.length ? glossaryViolations : undefined };
+  } catch (error) {
+    return { status: 'failure', error: toTranslationError(error).toFailure() };
+  }
+}
+
+export interface SpeechOptions extends CallOptions {
+  // Delivery instruction for the TTS model; the provider default when omitted
+  style?: string;
+}
+
+export async function generateMedicalSpeech(
+  text: string,
+  voice: string = 'Kore',
+  { style, ...options }: SpeechOptions = {}
+): Promise<ArrayBuffer> {
+  const provider = getTranslationProvider();
+  if (!provider.capabilities.speech) {
+    throw new Error(`Provider "${provider.id}" does not synthesize speech`);
+  }
+  return withCallPolicy(
+    signal => provider.synthesizeSpeech({ text, voice, style, signal }),
+    SPEECH_CALL_DEFAULTS,
+    options
+  );
+}
+
+// `raw` pieces are consecutive 16-bit PCM from a stream; otherwise `data` is one complete clip in any format
+export interface SpeechChunk {
+  data: ArrayBuffer;
+  raw: boolean;
+}
+
+// Streamed attempts are not retried: audio already played cannot be taken back, and callers fall back to browser TTS
+export async function streamMedicalSpeech(
+  text: string,
+  voice: string,
+  onChunk: (chunk: SpeechChunk) => void,
+  { style, ...options }: SpeechOptions = {}
+): Promise<void> {
+  const provider = getTranslationProvider();
+  if (!provider.streamSpeech) {
+    onChunk({ data: await generateMedicalSpeech(text, voice, { ...options, style }), raw: false });
+    return;
+  }
+  await withCallPolicy(
+    signal => provider.streamSpeech!({ text, voice, style, signal }, data => onChunk({ data, raw: true })),
+    { ...SPEECH_CALL_DEFAULTS, retries: 0 },
+    options
+  );
+}
+
+export const supportsGeneration = () => Boolean(getTranslationProvider().generate);
+
+// Structured tasks such as the teach-back assessment; resolves to the parsed JSON response
+export async function generateMedicalJson(
+  systemInstruction: string,
+  text: string,
+  options: CallOptions = {}
+): Promise<unknown> {
+  const provider = getTranslationProvider();
+  if (!provider.generate) {
+    throw new Error(`Provider "${provider.id}" does not run structured tasks`);
+  }
+  const output = await withCallPolicy(
+    signal => provider.generate!({ systemInstruction, text, json: true, signal }),
+    TRANSLATION_CALL_DEFAULTS,
+    options
+  );
+  try {
+    // Some models wrap JSON in a Markdown fence even when asked not to
+    return JSON.parse(output.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    throw new TranslationError('empty');
+  }
+}
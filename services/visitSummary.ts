@@ -0,0 +1,185 @@
+import { GlossaryEntry, IntegrityReport, TranscriptEntry } from '../types';
+import { CallOptions } from './callPolicy';
+import { checkDosageIntegrity, extractClinicalFacts } from './dosageGuard';
+import { buildVisitSummaryInstruction } from './medicalPrompt';
+import { generateMedicalJson, supportsGeneration, translateMedicalText } from './translationService';
+
+// End-of-visit summary: chief complaint, medications, instructions and follow-up, each item linked to
+// the transcript entries it came from. Items are written in the provider's language, translated like
+// any utterance, and checked for numbers twice: against their translation and against the transcript.
+
+export type SummarySection = 'chiefComplaint' | 'medications' | 'instructions' | 'followUp';
+
+export const SUMMARY_SECTIONS: SummarySection[] = ['chiefComplaint', 'medications', 'instructions', 'followUp'];
+
+// Vetted headings for the handout, so they never depend on the translation model
+export const HANDOUT_TITLES: Record<string, string> = {
+  'en-US': 'Your Visit Summary',
+  'es-ES': 'Resumen de su consulta',
+  'fr-FR': 'Résumé de votre consultation',
+  'zh-CN': '您的就诊摘要',
+  'vi-VN': 'Tóm tắt buổi khám của bạn',
+  'ar-SA': 'ملخص زيارتك',
+  'hi-IN': 'आपकी मुलाक़ात का सारांश',
+  'ru-RU': 'Итоги вашего приёма',
+};
+
+export const SECTION_TITLES: Record<string, Record<SummarySection, string>> = {
+  'en-US': { chiefComplaint: 'Reason for visit', medications: 'Medications', instructions: 'What to do at home', followUp: 'Follow-up' },
+  'es-ES': { chiefComplaint: 'Motivo de la consulta', medications: 'Medicamentos', instructions: 'Qué hacer en casa', followUp: 'Seguimiento' },
+  'fr-FR': { chiefComplaint: 'Motif de la consultation', medications: 'Médicaments', instructions: 'À faire à la maison', followUp: 'Suivi' },
+  'zh-CN': { chiefComplaint: '就诊原因', medications: '药物', instructions: '居家注意事项', followUp: '复诊' },
+  'vi-VN': { chiefComplaint: 'Lý do khám', medications: 'Thuốc', instructions: 'Việc cần làm ở nhà', followUp: 'Tái khám' },
+  'ar-SA': { chiefComplaint: 'سبب الزيارة', medications: 'الأدوية', instructions: 'ما يجب فعله في المنزل', followUp: 'المتابعة' },
+  'hi-IN': { chiefComplaint: 'आने का कारण', medications: 'दवाइयाँ', instructions: 'घर पर क्या करें', followUp: 'फ़ॉलो-अप' },
+  'ru-RU': { chiefComplaint: 'Причина обращения', medications: 'Лекарства', instructions: 'Что делать дома', followUp: 'Дальнейшее наблюдение' },
+};
+
+export const sectionTitle = (lang: string, section: SummarySection) =>
+  (SECTION_TITLES[lang] ?? SECTION_TITLES['en-US'])[section];
+
+export interface SummaryItem {
+  section: SummarySection;
+  // In the session's source language
+  text: string;
+  // In the session's target language; empty when the translation failed
+  translatedText: string;
+  // Transcript entries the item is based on, in transcript order
+  entryIds: string[];
+  // Items that fail are shown for review but left off the handout
+  integrity: IntegrityReport;
+}
+
+export interface VisitSummary {
+  sourceLang: string;
+  targetLang: string;
+  items: SummaryItem[];
+  // model: written by the provider's model; transcript: assembled from the entries as interpreted
+  method: 'model' | 'transcript';
+  generatedAt: Date;
+}
+
+export interface SummaryOptions extends CallOptions {
+  glossary?: GlossaryEntry[];
+}
+
+// The entry's wording in `lang`, whichever direction it was interpreted in
+const entryText = (entry: TranscriptEntry, lang: string) =>
+  entry.sourceLang === lang ? entry.originalText : entry.translatedText;
+
+const missingFacts = (itemText: string, sourceText: string, lang: string): string[] => {
+  const item = extractClinicalFacts(itemText, lang);
+  const source = extractClinicalFacts(sourceText, lang);
+  const facts = [
+    ...item.doses.filter(d => !source.doses.includes(d)),
+    ...item.frequencies.filter(f => !source.frequencies.includes(f)),
+    ...item.durations.filter(d => !source.durations.includes(d)),
+  ];
+  // Bare numbers only when no dose or duration above already names them
+  const numbers = item.numbers.filter(n => !source.numbers.includes(n) && !facts.some(f => f.startsWith(`${n} `)));
+  return [...facts, ...numbers.map(String)];
+};
+
+// The same number check as the transcript, plus a check that the item states nothing the transcript did not
+const verifyItem = (
+  item: Omit<SummaryItem, 'integrity'>,
+  entries: TranscriptEntry[],
+  sourceLang: string,
+  targetLang: string
+): SummaryItem => {
+  const linked = entries.filter(e => item.entryIds.includes(e.id));
+  const discrepancies: string[] = [];
+  if (!linked.length) discrepancies.push('Not linked to any transcript entry');
+  for (const entry of linked) {
+    if (entry.integrity && !entry.integrity.ok && !entry.integrityConfirmedAt) {
+      discrepancies.push(`Source entry #${entry.sequence} failed the number check`);
+    }
+  }
+  const invented = missingFacts(item.text, linked.map(e => entryText(e, sourceLang)).join('\n'), sourceLang);
+  if (invented.length) discrepancies.push(`Not in the transcript: ${[...new Set(invented)].join(', ')}`);
+  if (item.translatedText) {
+    discrepancies.push(...checkDosageIntegrity(item.text, sourceLang, item.translatedText, targetLang).discrepancies);
+  } else {
+    discrepancies.push('Translation failed');
+  }
+  return { ...item, integrity: { ok: discrepancies.length === 0, discrepancies } };
+};
+
+interface DraftItem {
+  section: SummarySection;
+  text: string;
+  entryIds: string[];
+}
+
+const parseDraft = (value: unknown, entries: TranscriptEntry[]): DraftItem[] => {
+  const bySequence = new Map(entries.map(e => [e.sequence, e.id]));
+  const draft = (value ?? {}) as Partial<Record<SummarySection, unknown>>;
+  return SUMMARY_SECTIONS.flatMap(section => {
+    const items = Array.isArray(draft[section]) ? draft[section] as { text?: unknown; entries?: unknown }[] : [];
+    return items
+      .filter(item => typeof item?.text === 'string' && item.text.trim())
+      .map(item => ({
+        section,
+        text: (item.text as string).trim(),
+        entryIds: (Array.isArray(item.entries) ? item.entries : [])
+          .map(n => bySequence.get(Number(n)))
+          .filter((id): id is string => Boolean(id)),
+      }));
+  });
+};
+
+const draftWithModel = async (entries: TranscriptEntry[], sourceLang: string, options: CallOptions) => {
+  const lines = entries.map(e =>
+    `#${e.sequence} ${e.speaker === 'provider' ? 'Provider' : 'Patient'}: ${entryText(e, sourceLang)}`
+  );
+  return parseDraft(await generateMedicalJson(buildVisitSummaryInstruction(sourceLang), lines.join('\n'), options), entries);
+};
+
+// Without a model the items are the interpreted entries themselves, so both languages are already checked
+const draftFromTranscript = (entries: TranscriptEntry[], sourceLang: string, targetLang: string) => {
+  const items: Omit<SummaryItem, 'integrity'>[] = [];
+  const add = (section: SummarySection, entry: TranscriptEntry) =>
+    items.push({ section, text: entryText(entry, sourceLang), translatedText: entryText(entry, targetLang), entryIds: [entry.id] });
+
+  const complaint = entries.find(e => e.speaker === 'patient');
+  if (complaint) add('chiefComplaint', complaint);
+  const provider = entries.filter(e => e.speaker === 'provider');
+  const medications = provider.filter(e => extractClinicalFacts(entryText(e, sourceLang), sourceLang).doses.length);
+  medications.forEach(e => add('medications', e));
+  provider.filter(e => e.keyInstruction && !medications.includes(e)).forEach(e => add('instructions', e));
+  return items;
+};
+
+export async function summarizeVisit(
+  transcripts: TranscriptEntry[],
+  sourceLang: string,
+  targetLang: string,
+  { glossary, ...options }: SummaryOptions = {}
+): Promise<VisitSummary> {
+  const entries = transcripts.filter(e => e.status === 'translated');
+  let items: Omit<SummaryItem, 'integrity'>[] | null = null;
+  let method: VisitSummary['method'] = 'transcript';
+
+  if (supportsGeneration() && entries.length) {
+    try {
+      const draft = await draftWithModel(entries, sourceLang, options);
+      items = await Promise.all(draft.map(async item => {
+        const result = await translateMedicalText(item.text, sourceLang, targetLang, { ...options, glossary });
+        return { ...item, translatedText: result.status === 'success' ? result.text : '' };
+      }));
+      method = 'model';
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      console.error("Visit summary generation failed, using the transcript", error);
+    }
+  }
+  items ??= draftFromTranscript(entries, sourceLang, targetLang);
+
+  return {
+    sourceLang,
+    targetLang,
+    items: items.map(item => verifyItem(item, entries, sourceLang, targetLang)),
+    method,
+    generatedAt: new Date(),
+  };
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createVoiceActivityDetector, VadSettings } from './voiceActivity';
+
+// 1 kHz and 10-sample frames: every frame is 10 ms
+const SAMPLE_RATE = 1000;
+const SETTINGS: VadSettings = { speechLevel: 0.1, endSilenceMs: 100, minUtteranceMs: 50, maxUtteranceMs: 1000 };
+
+const frame = (level: number) => new Float32Array(10).fill(level);
+const speech = () => frame(0.3);
+// Room noise: below the speech level but not a dead microphone
+const noise = () => frame(0.02);
+
+const setup = (settings: VadSettings = SETTINGS) => {
+  const onSegment = vi.fn();
+  const onSilentInput = vi.fn();
+  const vad = createVoiceActivityDetector(SAMPLE_RATE, settings, { onSegment, onSilentInput });
+  const push = (make: () => Float32Array, count: number) => {
+    for (let i = 0; i < count; i++) vad.push(make());
+  };
+  return { vad, push, onSegment, onSilentInput };
+};
+
+describe('createVoiceActivityDetector', () => {
+  it('starts an utterance on the first frame above the speech level, with the pre-roll before it', () => {
+    const { push, onSegment } = setup();
+    push(noise, 50);
+    push(speech, 10);
+    push(noise, 10);
+    expect(onSegment).toHaveBeenCalledTimes(1);
+    // 300 ms pre-roll, 100 ms of speech and the 100 ms hangover
+    expect(onSegment.mock.calls[0][0]).toHaveLength(500);
+  });
+
+  it('ends the utterance only after the full hangover of quiet', () => {
+    const { push, onSegment } = setup();
+    push(speech, 10);
+    push(noise, 9);
+    expect(onSegment).not.toHaveBeenCalled();
+    push(noise, 1);
+    expect(onSegment).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps one utterance across a pause shorter than the hangover', () => {
+    const { push, onSegment } = setup();
+    push(speech, 10);
+    push(noise, 5);
+    push(speech, 10);
+    push(noise, 10);
+    expect(onSegment).toHaveBeenCalledTimes(1);
+    expect(onSegment.mock.calls[0][0]).toHaveLength(350);
+  });
+
+  it('never reports noise below the speech level', () => {
+    const { vad, push, onSegment } = setup();
+    push(() => frame(0.09), 300);
+    vad.flush();
+    expect(onSegment).not.toHaveBeenCalled();
+  });
+
+  it('drops bursts shorter than the minimum utterance', () => {
+    const { push, onSegment } = setup();
+    push(speech, 4);
+    push(noise, 10);
+    expect(onSegment).not.toHaveBeenCalled();
+  });
+
+  it('splits an over-long utterance at its last pause', () => {
+    const { push, onSegment } = setup({ ...SETTINGS, endSilenceMs: 500 });
+    push(speech, 40);
+    push(noise, 25);
+    push(speech, 35);
+    expect(onSegment).toHaveBeenCalledTimes(1);
+    // Cut in the middle of the 250 ms pause
+    expect(onSegment.mock.calls[0][0]).toHaveLength(520);
+  });
+
+  it('delivers the utterance in progress on flush', () => {
+    const { vad, push, onSegment } = setup();
+    push(speech, 10);
+    vad.flush();
+    expect(onSegment).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a microphone that delivers only digital silence', () => {
+    const { push, onSilentInput } = setup();
+    push(() => frame(0), 299);
+    expect(onSilentInput).not.toHaveBeenCalled();
+    push(() => frame(0), 1);
+    expect(onSilentInput).toHaveBeenCalledTimes(1);
+  });
+});
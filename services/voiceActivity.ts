@@ -0,0 +1,182 @@
+// Energy-based voice activity detection over raw PCM frames. It decides where utterances begin
+// and end, splits long ones at the last natural pause, reports the input level for the meter and
+// notices a microphone that delivers nothing but digital silence (muted in hardware or broken).
+
+export interface VadSettings {
+  // RMS level above which a frame counts as speech
+  speechLevel: number;
+  // An utterance ends after this much quiet
+  endSilenceMs: number;
+  // Shorter bursts are clicks and coughs and are dropped
+  minUtteranceMs: number;
+  // Longer utterances are split at the last pause so long explanations are translated in chunks
+  maxUtteranceMs: number;
+}
+
+export const DEFAULT_VAD_SETTINGS: VadSettings = {
+  speechLevel: 0.015,
+  endSilenceMs: 800,
+  minUtteranceMs: 250,
+  maxUtteranceMs: 15000,
+};
+
+export const VAD_LIMITS: Record<keyof VadSettings, { min: number; max: number; step: number }> = {
+  speechLevel: { min: 0.003, max: 0.1, step: 0.001 },
+  endSilenceMs: { min: 300, max: 2500, step: 100 },
+  minUtteranceMs: { min: 100, max: 1500, step: 50 },
+  maxUtteranceMs: { min: 5000, max: 30000, step: 1000 },
+};
+
+const SETTINGS_KEY = 'vad_settings';
+// Audio kept from before speech was detected so the first syllable is not cut off
+const PRE_ROLL_MS = 300;
+// Quiet runs at least this long are where an over-long utterance may be split
+const SPLIT_PAUSE_MS = 200;
+const LEVEL_INTERVAL_MS = 50;
+// Real microphones always pick up some noise; exact zeros for this long mean no signal at all
+const SILENT_INPUT_MS = 3000;
+const DIGITAL_SILENCE = 1e-5;
+
+export const readVadSettings = (): VadSettings => {
+  try {
+    return { ...DEFAULT_VAD_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_VAD_SETTINGS;
+  }
+};
+
+export const writeVadSettings = (settings: VadSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export interface VadHandlers {
+  onSegment?: (samples: Float32Array) => void;
+  // Maximum RMS level over the last interval
+  onLevel?: (level: number) => void;
+  onSilentInput?: () => void;
+}
+
+export interface VoiceActivityDetector {
+  push(frame: Float32Array): void;
+  // End the utterance in progress, e.g. when listening stops
+  flush(): void;
+  setSettings(settings: VadSettings): void;
+}
+
+const frameLevels = (frame: Float32Array) => {
+  let sum = 0;
+  let peak = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sum += frame[i] * frame[i];
+    peak = Math.max(peak, Math.abs(frame[i]));
+  }
+  return { rms: Math.sqrt(sum / Math.max(frame.length, 1)), peak };
+};
+
+const concat = (frames: Float32Array[]) => {
+  const out = new Float32Array(frames.reduce((sum, f) => sum + f.length, 0));
+  let offset = 0;
+  for (const frame of frames) {
+    out.set(frame, offset);
+    offset += frame.length;
+  }
+  return out;
+};
+
+export function createVoiceActivityDetector(
+  sampleRate: number,
+  initialSettings: VadSettings,
+  handlers: VadHandlers
+): VoiceActivityDetector {
+  let settings = initialSettings;
+  let frames: Float32Array[] = [];
+  // Parallel to frames: whether each one was speech
+  let voiced: boolean[] = [];
+  let inSpeech = false;
+  let silenceMs = 0;
+  // Frame index in the middle of the most recent pause, or -1
+  let splitAt = -1;
+  let levelMs = 0;
+  let levelMax = 0;
+  let silentInputMs = 0;
+  let silentReported = false;
+
+  const frameMs = (frame: Float32Array) => (frame.length / sampleRate) * 1000;
+  const speechMsOf = (from: number, to: number) =>
+    voiced.slice(from, to).reduce((sum, v, i) => sum + (v ? frameMs(frames[from + i]) : 0), 0);
+
+  const emit = (end: number) => {
+    if (speechMsOf(0, end) >= settings.minUtteranceMs) handlers.onSegment?.(concat(frames.slice(0, end)));
+    frames = frames.slice(end);
+    voiced = voiced.slice(end);
+    splitAt = -1;
+    inSpeech = voiced.some(Boolean);
+    if (!inSpeech) silenceMs = 0;
+  };
+
+  const trackLevel = (rms: number, peak: number, ms: number) => {
+    levelMax = Math.max(levelMax, rms);
+    levelMs += ms;
+    if (levelMs >= LEVEL_INTERVAL_MS) {
+      handlers.onLevel?.(levelMax);
+      levelMs = 0;
+      levelMax = 0;
+    }
+
+    if (peak > DIGITAL_SILENCE) {
+      silentInputMs = 0;
+      silentReported = false;
+    } else if (!silentReported && (silentInputMs += ms) >= SILENT_INPUT_MS) {
+      silentReported = true;
+      handlers.onSilentInput?.();
+    }
+  };
+
+  return {
+    push(frame) {
+      const ms = frameMs(frame);
+      const { rms, peak } = frameLevels(frame);
+      trackLevel(rms, peak, ms);
+
+      const isSpeech = rms >= settings.speechLevel;
+      frames.push(frame);
+      voiced.push(isSpeech);
+
+      if (isSpeech) {
+        if (inSpeech && silenceMs >= SPLIT_PAUSE_MS) {
+          splitAt = frames.length - 1 - Math.round(silenceMs / 2 / ms);
+        }
+        inSpeech = true;
+        silenceMs = 0;
+      } else if (inSpeech) {
+        silenceMs += ms;
+      } else {
+        // Before speech only the pre-roll is kept
+        const keep = Math.ceil(PRE_ROLL_MS / ms);
+        if (frames.length > keep) {
+          frames.splice(0, frames.length - keep);
+          voiced.splice(0, voiced.length - keep);
+        }
+        return;
+      }
+
+      if (silenceMs >= settings.endSilenceMs) {
+        emit(frames.length);
+      } else if (frames.length * ms >= settings.maxUtteranceMs) {
+        // No pause at all: cut where we are rather than grow without bound
+        emit(splitAt > 0 ? splitAt : frames.length);
+      }
+    },
+    flush() {
+      if (inSpeech) emit(frames.length);
+      frames = [];
+      voiced = [];
+      inSpeech = false;
+      silenceMs = 0;
+      splitAt = -1;
+    },
+    setSettings(next) {
+      settings = next;
+    },
+  };
+}
@@ -0,0 +1,86 @@
+import { LANGUAGES } from '../types';
+import { DEFAULT_SPEECH_STYLE } from './geminiService';
+
+// Per-language voice preferences: a Gemini TTS voice, plus the browser voice used when Gemini
+// speech is unavailable. Stored per device since installed browser voices differ between machines.
+
+export const GEMINI_VOICES = [
+  'Kore', 'Zephyr', 'Puck', 'Charon', 'Fenrir', 'Leda', 'Orus', 'Aoede',
+  'Callirrhoe', 'Autonoe', 'Enceladus', 'Iapetus', 'Despina', 'Erinome', 'Achernar', 'Gacrux',
+  'Sulafat', 'Vindemiatrix',
+];
+
+export interface LanguageVoice {
+  gemini: string;
+  // SpeechSynthesisVoice.voiceURI; unset lets the browser choose for the language
+  browserVoiceURI?: string;
+}
+
+export interface VoiceSettings {
+  voices: Record<string, LanguageVoice>;
+  // Browser voices only; Gemini voices have no pitch control
+  pitch: number;
+  // Spoken to the TTS model before the text to set the delivery
+  style: string;
+}
+
+export const PITCH_RANGE = { min: 0.5, max: 1.5, step: 0.1 };
+
+const DEFAULT_GEMINI_VOICES: Record<string, string> = {
+  'en-US': 'Kore',
+  'es-ES': 'Zephyr',
+  'fr-FR': 'Aoede',
+  'zh-CN': 'Leda',
+  'vi-VN': 'Despina',
+  'ar-SA': 'Charon',
+  'hi-IN': 'Achernar',
+  'ru-RU': 'Orus',
+};
+
+export const PREVIEW_PHRASES: Record<string, string> = {
+  'en-US': 'Please take one tablet twice a day with food.',
+  'es-ES': 'Tome una tableta dos veces al día con comida.',
+  'fr-FR': 'Prenez un comprimé deux fois par jour avec de la nourriture.',
+  'zh-CN': '请每天两次，每次一片，随餐服用。',
+  'vi-VN': 'Vui lòng uống một viên hai lần mỗi ngày cùng với thức ăn.',
+  'ar-SA': 'يرجى تناول قرص واحد مرتين يوميًا مع الطعام.',
+  'hi-IN': 'कृपया दिन में दो बार भोजन के साथ एक गोली लें।',
+  'ru-RU': 'Принимайте по одной таблетке два раза в день во время еды.',
+};
+
+const SETTINGS_KEY = 'voice_settings';
+
+export const defaultVoiceSettings = (): VoiceSettings => ({
+  voices: Object.fromEntries(LANGUAGES.map(l => [l.code, { gemini: DEFAULT_GEMINI_VOICES[l.code] ?? 'Kore' }])),
+  pitch: 1,
+  style: DEFAULT_SPEECH_STYLE,
+});
+
+// Stored settings are merged over the defaults so languages added later still get a voice
+export const readVoiceSettings = (): VoiceSettings => {
+  const defaults = defaultVoiceSettings();
+  try {
+    const stored: Partial<VoiceSettings> = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    return {
+      voices: { ...defaults.voices, ...stored.voices },
+      pitch: typeof stored.pitch === 'number' ? stored.pitch : defaults.pitch,
+      style: typeof stored.style === 'string' ? stored.style : defaults.style,
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const writeVoiceSettings = (settings: VoiceSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Browser voices for a language: exact locale first, then the same base language
+export const browserVoicesFor = (voices: SpeechSynthesisVoice[], lang: string) => {
+  const base = lang.split('-')[0].toLowerCase();
+  const normalized = (v: SpeechSynthesisVoice) => v.lang.replace('_', '-').toLowerCase();
+  return [
+    ...voices.filter(v => normalized(v) === lang.toLowerCase()),
+    ...voices.filter(v => normalized(v) !== lang.toLowerCase() && normalized(v).split('-')[0] === base),
+  ];
+};
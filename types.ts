@@ -1,12 +1,158 @@
 
+export type TranslationErrorKind = 'network' | 'auth' | 'quota' | 'safety' | 'empty' | 'timeout' | 'cancelled';
+
+export interface TranslationFailure {
+  kind: TranslationErrorKind;
+  message: string;
+}
+
+export type TranslationResult =
+  // glossaryViolations lists mandated facility terms the model did not use
+  | { status: 'success'; text: string; glossaryViolations?: string[] }
+  | { status: 'failure'; error: TranslationFailure };
+
+// A translation started before its entry exists; whoever takes it over owns the controller
+export interface SpeculativeTranslation {
+  promise: Promise<TranslationResult>;
+  controller: AbortController;
+}
+
+export interface TranslationQuality {
+  level: 'high' | 'medium' | 'low' | 'unknown';
+  // Similarity of the back-translation to the original, 0..1
+  score: number;
+  // Human-readable explanations shown in the confidence tooltip
+  reasons: string[];
+  backTranslation?: string;
+}
+
+// Result of the deterministic number/dose/frequency/duration comparison
+export interface IntegrityReport {
+  ok: boolean;
+  // One human-readable line per discrepancy
+  discrepancies: string[];
+}
+
+// Milliseconds from sending the request; firstTextMs equals totalMs when the provider does not stream
+export interface TranslationLatency {
+  firstTextMs: number;
+  totalMs: number;
+}
+
+export type EditorRole = 'provider' | 'nurse' | 'interpreter' | 'staff';
+
+export const EDITOR_ROLES: Record<EditorRole, string> = {
+  provider: 'Provider',
+  nurse: 'Nurse',
+  interpreter: 'Interpreter',
+  staff: 'Bilingual staff',
+};
+
+// Who is making corrections on this device
+export interface EditorIdentity {
+  name: string;
+  role: EditorRole;
+}
+
+// One change to a transcript entry; the current value is on the entry itself
+export interface EntryRevision {
+  field: 'originalText' | 'translatedText';
+  previousValue: string;
+  // correction: source text fixed by hand; override: translation typed by staff;
+  // retranslation: translation replaced by a new one from the service, e.g. after a correction or a retry
+  reason: 'correction' | 'override' | 'retranslation';
+  editedAt: Date;
+  editedBy: string;
+  role: EditorRole;
+}
+
+export type TeachBackOutcome = 'understood' | 'partial' | 'not-understood';
+
+// Comprehension check on a key instruction: the patient repeats it back in their own words
+export interface TeachBack {
+  status: 'awaiting' | 'assessing' | 'done';
+  requestedAt: Date;
+  // The patient entry that answered the prompt
+  replyEntryId?: string;
+  outcome?: TeachBackOutcome;
+  // Key points the patient left out or got wrong
+  gaps?: string[];
+  explanation?: string;
+  assessedAt?: Date;
+}
+
 export interface TranscriptEntry {
   id: string;
+  // Monotonic utterance number; transcript order always follows it
+  sequence: number;
   originalText: string;
+  // Empty while pending or when the translation failed; never holds an error message
   translatedText: string;
   timestamp: Date;
   sourceLang: string;
   targetLang: string;
   speaker: 'provider' | 'patient';
+  // Set when language identification overrode the assumed direction and speaker
+  detectedLang?: string;
+  status: 'pending' | 'translated' | 'failed';
+  error?: TranslationFailure;
+  // Filled in asynchronously after the translation lands
+  quality?: TranslationQuality;
+  integrity?: IntegrityReport;
+  // Set when a provider reviewed a failed integrity check and allowed playback anyway
+  integrityConfirmedAt?: Date;
+  glossaryViolations?: string[];
+  latency?: TranslationLatency;
+  // Oldest first; absent until the entry is first edited
+  revisions?: EntryRevision[];
+  // translatedText was entered by staff rather than produced by the translation service
+  manualTranslation?: boolean;
+  // translatedText came from the offline phrasebook; holds the phrase ID
+  phrasebookId?: string;
+  // Captured offline with no phrasebook match; stays pending until the connection returns
+  queuedOffline?: boolean;
+  // Marked by the provider as an instruction the patient must understand (dosage, discharge, warning signs)
+  keyInstruction?: boolean;
+  teachBack?: TeachBack;
+  // On a patient reply: the key instruction it was a teach-back for
+  teachBackFor?: string;
+}
+
+export type TermCategory = 'drug' | 'condition' | 'procedure' | 'anatomy';
+
+// One concept in the medical terminology lexicon
+export interface TermEntry {
+  id: string;
+  category: TermCategory;
+  // Surface forms per language code; the first form is the preferred term, the rest are synonyms
+  forms: Record<string, string[]>;
+}
+
+// Facility-mandated translation of a term for one language direction
+export interface GlossaryEntry {
+  id: string;
+  sourceLang: string;
+  targetLang: string;
+  sourceTerm: string;
+  targetTerm: string;
+  // Target-language renderings the facility does not allow for this term
+  forbidden: string[];
+}
+
+// One consultation: the transcript plus the metadata needed to list, resume and purge it
+export interface EncounterSession {
+  id: string;
+  label?: string;
+  startedAt: Date;
+  // Set when the clinician starts or resumes another session
+  endedAt?: Date;
+  // Last write; drives the retention policy
+  updatedAt: Date;
+  sourceLang: string;
+  targetLang: string;
+  // Send recent turns as translation context; absent in sessions saved before the option existed
+  contextEnabled?: boolean;
+  transcripts: TranscriptEntry[];
 }
 
 export interface Language {
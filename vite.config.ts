@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.TRANSLATION_PROVIDER': JSON.stringify(env.TRANSLATION_PROVIDER),
+        'process.env.TRANSLATION_ENDPOINT': JSON.stringify(env.TRANSLATION_ENDPOINT),
+        'process.env.STT_ENGINE': JSON.stringify(env.STT_ENGINE),
+        'process.env.STT_ENDPOINT': JSON.stringify(env.STT_ENDPOINT),
+        'process.env.STT_MODEL': JSON.stringify(env.STT_MODEL)
       },
       resolve: {
         alias: {